@@ -0,0 +1,396 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import * as crypto from 'crypto';
+import fetch from 'node-fetch';
+import {
+    Message, CheckInMessage, SessionMessage, AuthFailureReason, HistoryRequestMessage, HelloMessage,
+    ActivityContext, PROTOCOL_VERSION, CAPABILITIES, ACTIVITY_CONTEXTS, getSigningPayload
+} from '../src/protocol';
+import { parseMessage } from '../src/protocolValidation';
+import { HistoryStore } from './historyStore';
+
+export interface CheckInServerOptions {
+    port: number;
+    authMode: 'github' | 'dev'; // dev accepts any token, for local development and offline tests
+    cooldownMinutes: number;
+    historySize: number;
+    maxMessageLength: number;
+    maxTags: number;
+    minProtocolVersion: number; // Clients that don't send hello count as version 1
+    dataFile?: string; // Persist history to this JSON file, in memory only when undefined
+}
+
+// State kept for each connected client
+interface ClientState {
+    socket: WebSocket;
+    authenticated: boolean;
+    protocolVersion: number; // Negotiated in hello, 1 for clients that predate it
+    username?: string; // GitHub login, unknown in dev auth mode
+    session?: SessionMessage;
+    lastSignatureTimestamp: number; // Signatures must not be reused on a connection
+}
+
+// How far a signature timestamp may drift from the server clock
+const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+// How long a new connection has to send its auth frame
+const AUTH_TIMEOUT_MS = 10000;
+// Number of check-ins per history_batch frame
+const HISTORY_BATCH_SIZE = 50;
+
+/**
+ * Reference implementation of the check-in protocol spoken by WebSocketClient
+ */
+export class CheckInServer {
+    private wss: WebSocketServer | null = null;
+    private clients = new Set<ClientState>();
+    private history: HistoryStore;
+    private nextAllowedAt = new Map<string, number>(); // Cooldown per username
+    private rejectedFrameCount = 0; // Frames dropped because they failed validation
+
+    constructor(private readonly options: CheckInServerOptions) {
+        this.history = new HistoryStore(options.historySize, options.dataFile);
+    }
+
+    /**
+     * Start listening for connections
+     */
+    public start(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const wss = new WebSocketServer({ port: this.options.port }, () => {
+                console.log(`Check-in server listening on ws://localhost:${this.options.port} (auth: ${this.options.authMode})`);
+                wss.off('error', reject);
+                resolve();
+            });
+            // E.g. the port is taken
+            wss.once('error', reject);
+            wss.on('connection', socket => this.handleConnection(socket));
+            this.wss = wss;
+        });
+    }
+
+    /**
+     * Close all connections and persist the history
+     */
+    public stop(): Promise<void> {
+        this.history.save();
+        return new Promise(resolve => {
+            this.clients.forEach(client => client.socket.close(1001, 'Server shutting down'));
+            if (this.wss) {
+                this.wss.close(() => resolve());
+                this.wss = null;
+            } else {
+                resolve();
+            }
+        });
+    }
+
+    private handleConnection(socket: WebSocket) {
+        const client: ClientState = { socket, authenticated: false, protocolVersion: 1, lastSignatureTimestamp: 0 };
+        this.clients.add(client);
+
+        // Connections that never authenticate are dropped
+        const authTimeout = setTimeout(() => {
+            if (!client.authenticated) {
+                this.failAuth(client, 'missing_token');
+            }
+        }, AUTH_TIMEOUT_MS);
+
+        socket.on('message', data => {
+            const parsed = parseMessage(data.toString());
+            if ('error' in parsed) {
+                this.rejectedFrameCount++;
+                console.error(`Ignoring invalid frame (${this.rejectedFrameCount} so far): ${parsed.error}`);
+                this.send(client, { type: 'error', message: parsed.error });
+                return;
+            }
+
+            this.handleMessage(client, parsed.message).catch(error => {
+                console.error('Error handling message:', error);
+                this.send(client, { type: 'error', message: 'Internal server error' });
+            });
+        });
+
+        socket.on('close', () => {
+            clearTimeout(authTimeout);
+            this.clients.delete(client);
+            this.broadcastOnlineUsers();
+        });
+
+        socket.on('error', error => {
+            console.error('Socket error:', error);
+        });
+    }
+
+    private async handleMessage(client: ClientState, message: Message) {
+        if (message.type === 'hello') {
+            this.handleHello(client, message);
+            return;
+        }
+        if (message.type === 'auth') {
+            await this.handleAuth(client, message.token);
+            return;
+        }
+
+        // Everything else requires an authenticated connection
+        if (!client.authenticated) {
+            this.send(client, { type: 'error', message: 'Not authenticated' });
+            return;
+        }
+
+        switch (message.type) {
+            case 'history_request':
+                this.sendHistory(client, message);
+                break;
+            case 'online_users_request':
+                this.send(client, { type: 'online_users', count: this.getOnlineUsersCount() });
+                break;
+            case 'checkin':
+                this.handleCheckIn(client, message);
+                break;
+            default:
+                this.send(client, { type: 'error', message: `Unsupported message type: ${message.type}` });
+        }
+    }
+
+    /**
+     * Agree on a protocol version, or refuse clients that are too old
+     */
+    private handleHello(client: ClientState, hello: HelloMessage) {
+        if (hello.protocolVersion < this.options.minProtocolVersion) {
+            this.send(client, {
+                type: 'hello_rejected',
+                reason: 'client_outdated',
+                message: 'Please update You\'re Not Alone to connect to this server.',
+                minProtocolVersion: this.options.minProtocolVersion
+            });
+            client.socket.close(1008, 'Protocol version not supported');
+            return;
+        }
+
+        client.protocolVersion = Math.min(hello.protocolVersion, PROTOCOL_VERSION);
+        console.log(`Client ${hello.client ?? 'unknown'} speaks protocol version ${hello.protocolVersion}`);
+
+        // Only what both sides understand
+        const capabilities = CAPABILITIES.filter(capability => hello.capabilities.includes(capability));
+        this.send(client, {
+            type: 'hello_ok',
+            protocolVersion: client.protocolVersion,
+            capabilities,
+            latestProtocolVersion: PROTOCOL_VERSION
+        });
+
+        if (capabilities.includes('server_config')) {
+            this.send(client, {
+                type: 'config',
+                maxMessageLength: this.options.maxMessageLength,
+                cooldownSeconds: Math.round(this.options.cooldownMinutes * 60),
+                maxTags: this.options.maxTags,
+                historySize: this.options.historySize
+            });
+        }
+    }
+
+    private async handleAuth(client: ClientState, token: string | undefined) {
+        if (client.authenticated) {
+            return;
+        }
+        if (!token) {
+            this.failAuth(client, 'missing_token');
+            return;
+        }
+
+        if (this.options.authMode === 'github') {
+            const result = await this.verifyGitHubToken(token);
+            if (typeof result !== 'string') {
+                this.failAuth(client, result.reason);
+                return;
+            }
+            client.username = result;
+        }
+
+        client.authenticated = true;
+        client.session = {
+            type: 'session',
+            nonce: crypto.randomBytes(16).toString('hex'),
+            key: crypto.randomBytes(32).toString('hex')
+        };
+
+        this.send(client, { type: 'auth_ok', username: client.username });
+        this.send(client, client.session);
+        this.broadcastOnlineUsers();
+    }
+
+    /**
+     * Look up the GitHub login a token belongs to
+     * @returns the login, or the reason the token was refused
+     */
+    private async verifyGitHubToken(token: string): Promise<string | { reason: AuthFailureReason }> {
+        try {
+            const response = await fetch('https://api.github.com/user', {
+                headers: {
+                    'Authorization': `token ${token}`,
+                    'User-Agent': 'YNA-Reference-Server'
+                }
+            });
+
+            if (response.status === 401) {
+                return { reason: 'invalid_token' };
+            }
+            if (response.status === 403) {
+                return { reason: 'insufficient_scope' };
+            }
+            if (!response.ok) {
+                return { reason: 'invalid_token' };
+            }
+
+            const user = await response.json() as { login: string };
+            return user.login;
+        } catch (error) {
+            console.error('Error verifying GitHub token:', error);
+            return { reason: 'invalid_token' };
+        }
+    }
+
+    private failAuth(client: ClientState, reason: AuthFailureReason) {
+        this.send(client, { type: 'auth_failed', reason });
+        client.socket.close(1008, 'Authentication failed');
+    }
+
+    private sendHistory(client: ClientState, request: HistoryRequestMessage) {
+        const delta = this.history.canServeDelta(request.sinceSeq, request.since);
+        const checkIns = delta ? this.history.getSince(request.sinceSeq, request.since) : this.history.getSince();
+
+        this.send(client, { type: 'history_start', count: checkIns.length, delta });
+        for (let i = 0; i < checkIns.length; i += HISTORY_BATCH_SIZE) {
+            this.send(client, { type: 'history_batch', checkIns: checkIns.slice(i, i + HISTORY_BATCH_SIZE) });
+        }
+        this.send(client, { type: 'history_end' });
+    }
+
+    private handleCheckIn(client: ClientState, checkIn: CheckInMessage) {
+        const id = checkIn.id;
+        if (typeof id !== 'string' || !id) {
+            this.send(client, { type: 'error', message: 'Check-in is missing an id' });
+            return;
+        }
+
+        const problem = this.validateCheckIn(client, checkIn);
+        if (problem) {
+            this.send(client, { type: 'checkin_rejected', id, reason: problem });
+            return;
+        }
+
+        const username = checkIn.username;
+        const now = Date.now();
+
+        // A check-in resent after a reconnect is acknowledged again, but not stored twice.
+        // Only ids still in the history are known, so memory stays bounded by the history size.
+        if (this.history.has(id)) {
+            this.send(client, { type: 'checkin_ack', id, nextAllowedAt: new Date(this.nextAllowedAt.get(username) ?? now).toISOString() });
+            return;
+        }
+
+        const nextAllowedAt = this.nextAllowedAt.get(username) ?? 0;
+        if (now < nextAllowedAt) {
+            this.send(client, {
+                type: 'checkin_rejected',
+                id,
+                reason: 'You checked in recently, please wait for the cooldown to end',
+                nextAllowedAt: new Date(nextAllowedAt).toISOString()
+            });
+            return;
+        }
+
+        const newNextAllowedAt = now + this.options.cooldownMinutes * 60 * 1000;
+        this.nextAllowedAt.set(username, newNextAllowedAt);
+
+        const stored = this.history.add({
+            type: 'new_checkin',
+            id,
+            username,
+            tags: checkIn.tags.slice(0, this.options.maxTags),
+            message: checkIn.message.substring(0, this.options.maxMessageLength),
+            timestamp: checkIn.timestamp,
+            avatarUrl: checkIn.avatarUrl,
+            snippet: checkIn.snippet,
+            context: this.filterContext(checkIn.context)
+        });
+
+        this.send(client, { type: 'checkin_ack', id, nextAllowedAt: new Date(newNextAllowedAt).toISOString() });
+        this.broadcast(stored);
+    }
+
+    /**
+     * Keep the activity context values this server knows, once each
+     * @returns the context, or undefined if nothing is left
+     */
+    private filterContext(context: string[] | undefined): ActivityContext[] | undefined {
+        const known = ACTIVITY_CONTEXTS.filter(value => context?.includes(value));
+        return known.length > 0 ? known : undefined;
+    }
+
+    /**
+     * Check the signature and replay protection of a check-in
+     * @returns the reason the check-in is refused, or undefined if it is fine
+     */
+    private validateCheckIn(client: ClientState, checkIn: CheckInMessage): string | undefined {
+        // The shape was checked when the frame was parsed
+        if (client.username && checkIn.username !== client.username) {
+            return 'Check-in username does not match the signed-in account';
+        }
+
+        const session = client.session;
+        if (!session || checkIn.nonce !== session.nonce || !checkIn.signature || !checkIn.signatureTimestamp) {
+            return 'Check-in is not signed for this connection';
+        }
+
+        const signatureTime = Number(checkIn.signatureTimestamp);
+        if (isNaN(signatureTime) || Math.abs(Date.now() - signatureTime) > SIGNATURE_MAX_AGE_MS) {
+            return 'Check-in signature has expired';
+        }
+        if (signatureTime <= client.lastSignatureTimestamp) {
+            return 'Check-in signature was already used';
+        }
+
+        const expected = crypto.createHmac('sha256', session.key)
+            .update(getSigningPayload(checkIn, checkIn.signatureTimestamp, session.nonce))
+            .digest('hex');
+        const received = Buffer.from(checkIn.signature, 'hex');
+        if (received.length !== expected.length / 2 || !crypto.timingSafeEqual(received, Buffer.from(expected, 'hex'))) {
+            return 'Invalid check-in signature';
+        }
+
+        client.lastSignatureTimestamp = signatureTime;
+        return undefined;
+    }
+
+    /**
+     * Count people rather than connections; in dev auth mode every connection counts
+     */
+    private getOnlineUsersCount(): number {
+        const people = new Set<ClientState | string>();
+        this.clients.forEach(client => {
+            if (client.authenticated) {
+                people.add(client.username ?? client);
+            }
+        });
+        return people.size;
+    }
+
+    private broadcastOnlineUsers() {
+        this.broadcast({ type: 'online_users', count: this.getOnlineUsersCount() });
+    }
+
+    private broadcast(message: Message) {
+        this.clients.forEach(client => {
+            if (client.authenticated) {
+                this.send(client, message);
+            }
+        });
+    }
+
+    private send(client: ClientState, message: Message) {
+        if (client.socket.readyState === WebSocket.OPEN) {
+            client.socket.send(JSON.stringify(message));
+        }
+    }
+}
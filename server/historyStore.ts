@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NewCheckInMessage } from '../src/protocol';
+
+/**
+ * Keeps the most recent check-ins, in memory and optionally in a JSON file
+ */
+export class HistoryStore {
+    private checkIns: NewCheckInMessage[] = [];
+    private nextSeq = 1;
+    private saveTimeout: NodeJS.Timeout | null = null;
+
+    /**
+     * @param maxSize Maximum number of check-ins to keep
+     * @param filePath JSON file to persist to, or undefined to keep history in memory only
+     */
+    constructor(private readonly maxSize: number, private readonly filePath?: string) {
+        this.load();
+    }
+
+    /**
+     * Store a check-in and assign it the next sequence id
+     * @returns the stored check-in
+     */
+    public add(checkIn: Omit<NewCheckInMessage, 'seq'>): NewCheckInMessage {
+        const stored: NewCheckInMessage = { ...checkIn, seq: this.nextSeq++ };
+        this.checkIns.push(stored);
+
+        // Trim to the configured size, oldest first
+        if (this.checkIns.length > this.maxSize) {
+            this.checkIns = this.checkIns.slice(this.checkIns.length - this.maxSize);
+        }
+
+        this.scheduleSave();
+        return stored;
+    }
+
+    /**
+     * Check whether a check-in with this id is still kept
+     */
+    public has(id: string): boolean {
+        return this.checkIns.some(checkIn => checkIn.id === id);
+    }
+
+    /**
+     * Get the stored check-ins, oldest first
+     * @param sinceSeq Only return check-ins with a higher sequence id
+     * @param since Only return check-ins newer than this timestamp, used when no sequence id is given
+     */
+    public getSince(sinceSeq?: number, since?: string): NewCheckInMessage[] {
+        if (typeof sinceSeq === 'number') {
+            return this.checkIns.filter(checkIn => (checkIn.seq ?? 0) > sinceSeq);
+        }
+        if (since) {
+            const sinceTime = new Date(since).getTime();
+            if (!isNaN(sinceTime)) {
+                return this.checkIns.filter(checkIn => new Date(checkIn.timestamp).getTime() > sinceTime);
+            }
+        }
+        return [...this.checkIns];
+    }
+
+    /**
+     * Check whether a cursor can be answered with a delta.
+     * A sequence id older than what we still keep means check-ins were trimmed in between.
+     */
+    public canServeDelta(sinceSeq?: number, since?: string): boolean {
+        if (typeof sinceSeq === 'number') {
+            const oldest = this.checkIns[0]?.seq;
+            return sinceSeq < this.nextSeq && (oldest === undefined || sinceSeq >= oldest - 1);
+        }
+        return since !== undefined && !isNaN(new Date(since).getTime());
+    }
+
+    private load() {
+        if (!this.filePath || !fs.existsSync(this.filePath)) {
+            return;
+        }
+
+        try {
+            const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as { nextSeq: number, checkIns: NewCheckInMessage[] };
+            this.checkIns = Array.isArray(data.checkIns) ? data.checkIns.slice(-this.maxSize) : [];
+            this.nextSeq = typeof data.nextSeq === 'number' ? data.nextSeq : this.checkIns.length + 1;
+            console.log(`Loaded ${this.checkIns.length} check-ins from ${this.filePath}`);
+        } catch (error) {
+            console.error(`Error loading history from ${this.filePath}:`, error);
+        }
+    }
+
+    private scheduleSave() {
+        if (!this.filePath || this.saveTimeout) {
+            return;
+        }
+
+        // Batch writes, check-ins can arrive in bursts
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = null;
+            this.save();
+        }, 1000);
+    }
+
+    /**
+     * Write the history to disk right away
+     */
+    public save() {
+        if (!this.filePath) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            fs.writeFileSync(this.filePath, JSON.stringify({ nextSeq: this.nextSeq, checkIns: this.checkIns }, null, 2));
+        } catch (error) {
+            console.error(`Error saving history to ${this.filePath}:`, error);
+        }
+    }
+}
@@ -0,0 +1,44 @@
+import { CheckInServer, CheckInServerOptions } from './checkInServer';
+import { DEFAULT_LIMITS } from '../src/protocol';
+
+/**
+ * Read a command line flag (--name value), falling back to an environment variable
+ */
+function getOption(name: string, envName: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    if (index !== -1 && index + 1 < process.argv.length) {
+        return process.argv[index + 1];
+    }
+    return process.env[envName];
+}
+
+function getNumberOption(name: string, envName: string, defaultValue: number): number {
+    const value = Number(getOption(name, envName));
+    return isNaN(value) || value <= 0 ? defaultValue : value;
+}
+
+const authMode = getOption('auth', 'YNA_AUTH') === 'dev' ? 'dev' : 'github';
+
+const options: CheckInServerOptions = {
+    port: getNumberOption('port', 'YNA_PORT', 8787),
+    authMode,
+    cooldownMinutes: getNumberOption('cooldown-minutes', 'YNA_COOLDOWN_MINUTES', DEFAULT_LIMITS.cooldownSeconds / 60),
+    historySize: getNumberOption('history-size', 'YNA_HISTORY_SIZE', DEFAULT_LIMITS.historySize),
+    maxMessageLength: getNumberOption('max-message-length', 'YNA_MAX_MESSAGE_LENGTH', DEFAULT_LIMITS.maxMessageLength),
+    maxTags: getNumberOption('max-tags', 'YNA_MAX_TAGS', DEFAULT_LIMITS.maxTags),
+    minProtocolVersion: getNumberOption('min-protocol-version', 'YNA_MIN_PROTOCOL_VERSION', 1),
+    dataFile: getOption('data', 'YNA_DATA_FILE')
+};
+
+const server = new CheckInServer(options);
+server.start().catch(error => {
+    console.error('Failed to start the check-in server:', error);
+    process.exit(1);
+});
+
+// Persist history before exiting
+const shutdown = () => {
+    server.stop().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import { ActivityContext } from './protocol';
+import { Logger } from './logger';
+
+// A context still counts for a while after it ended, e.g. a check-in right after a debug session
+const CONTEXT_LINGER_MS = 10 * 60 * 1000;
+
+// Task names and terminal commands that run tests or builds
+const TEST_COMMAND = /\b(test|tests|jest|vitest|mocha|pytest|rspec|phpunit|karma|playwright|cypress)\b/i;
+const BUILD_COMMAND = /\b(build|compile|make|cmake|webpack|tsc|gradlew?|mvn|msbuild|bazel|esbuild|rollup)\b/i;
+
+// The parts of the built-in git extension's API we use
+interface GitRepository {
+    state: {
+        mergeChanges: unknown[]; // Files with merge conflicts
+        onDidChange: vscode.Event<void>;
+    };
+}
+
+interface GitApi {
+    repositories: GitRepository[];
+    onDidOpenRepository: vscode.Event<GitRepository>;
+}
+
+interface GitExtension {
+    getAPI(version: 1): GitApi;
+}
+
+/**
+ * Tracks what kind of work is going on, like debugging or running tests, to tag check-ins with.
+ * Only the kind of activity is kept: task names and terminal commands are matched and
+ * forgotten, nothing about the code or the output is read.
+ * Nothing is watched unless yna.activityContext.enabled is on; turning it off stops watching.
+ */
+export class ActivityContextTracker implements vscode.Disposable {
+    private static instance: ActivityContextTracker;
+    private log = Logger.getInstance();
+    private running = new Map<ActivityContext, number>(); // Sessions, tasks or commands in progress
+    private lastSeenAt = new Map<ActivityContext, number>(); // When each context last ended
+    private runningExecutions = new Map<object, ActivityContext>(); // Task or terminal execution to its context
+    private conflictedRepositories = new Set<GitRepository>();
+    private watching = false;
+    private disposables: vscode.Disposable[] = []; // Listeners, only while watching
+    private configListener: vscode.Disposable;
+
+    private constructor() {
+        this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('yna.activityContext.enabled')) {
+                this.updateWatching();
+            }
+        });
+        this.updateWatching();
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): ActivityContextTracker {
+        if (!ActivityContextTracker.instance) {
+            ActivityContextTracker.instance = new ActivityContextTracker();
+        }
+        return ActivityContextTracker.instance;
+    }
+
+    /**
+     * Get the contexts to send with a check-in: those in progress and those that ended recently
+     * @returns the contexts, empty unless the user opted in
+     */
+    public getActiveContexts(): ActivityContext[] {
+        if (!this.watching) {
+            return [];
+        }
+
+        const now = Date.now();
+        const contexts: ActivityContext[] = [];
+        if (this.conflictedRepositories.size > 0) {
+            contexts.push('resolving-conflicts');
+        }
+        (['debugging', 'testing', 'building'] as ActivityContext[]).forEach(context => {
+            const ongoing = (this.running.get(context) ?? 0) > 0;
+            if (ongoing || now - (this.lastSeenAt.get(context) ?? 0) < CONTEXT_LINGER_MS) {
+                contexts.push(context);
+            }
+        });
+        return contexts;
+    }
+
+    public dispose() {
+        this.configListener.dispose();
+        this.stopWatching();
+    }
+
+    /**
+     * Start or stop watching to follow the setting
+     */
+    private updateWatching() {
+        const enabled = vscode.workspace.getConfiguration('yna.activityContext').get<boolean>('enabled', false);
+        if (enabled && !this.watching) {
+            this.watching = true;
+            this.trackDebugSessions();
+            this.trackTasks();
+            this.trackTerminalCommands();
+            this.trackMergeConflicts();
+        } else if (!enabled && this.watching) {
+            this.stopWatching();
+        }
+    }
+
+    /**
+     * Remove every listener and forget what was seen
+     */
+    private stopWatching() {
+        this.watching = false;
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.running.clear();
+        this.lastSeenAt.clear();
+        this.runningExecutions.clear();
+        this.conflictedRepositories.clear();
+    }
+
+    private start(context: ActivityContext) {
+        this.running.set(context, (this.running.get(context) ?? 0) + 1);
+    }
+
+    private end(context: ActivityContext) {
+        this.running.set(context, Math.max(0, (this.running.get(context) ?? 0) - 1));
+        this.lastSeenAt.set(context, Date.now());
+    }
+
+    private trackDebugSessions() {
+        if (vscode.debug.activeDebugSession) {
+            this.start('debugging');
+        }
+        this.disposables.push(
+            vscode.debug.onDidStartDebugSession(() => this.start('debugging')),
+            vscode.debug.onDidTerminateDebugSession(() => this.end('debugging'))
+        );
+    }
+
+    private trackTasks() {
+        this.disposables.push(
+            vscode.tasks.onDidStartTask(event => {
+                const context = classifyTask(event.execution.task);
+                if (context) {
+                    this.runningExecutions.set(event.execution, context);
+                    this.start(context);
+                }
+            }),
+            vscode.tasks.onDidEndTask(event => {
+                const context = this.runningExecutions.get(event.execution);
+                if (context) {
+                    this.runningExecutions.delete(event.execution);
+                    this.end(context);
+                }
+            })
+        );
+    }
+
+    /**
+     * Commands typed in terminals, where shell integration reports them (VS Code 1.93 and later)
+     */
+    private trackTerminalCommands() {
+        if (typeof vscode.window.onDidStartTerminalShellExecution !== 'function') {
+            return;
+        }
+        this.disposables.push(
+            vscode.window.onDidStartTerminalShellExecution(event => {
+                const context = classifyCommand(event.execution.commandLine.value);
+                if (context) {
+                    this.runningExecutions.set(event.execution, context);
+                    this.start(context);
+                }
+            }),
+            vscode.window.onDidEndTerminalShellExecution(event => {
+                const context = this.runningExecutions.get(event.execution);
+                if (context) {
+                    this.runningExecutions.delete(event.execution);
+                    this.end(context);
+                }
+            })
+        );
+    }
+
+    /**
+     * Merge conflicts, as reported by the built-in git extension
+     */
+    private async trackMergeConflicts() {
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!extension) {
+            return;
+        }
+
+        // Replaced when watching stops, so a stale start is noticed
+        const disposables = this.disposables;
+        try {
+            const git = (extension.isActive ? extension.exports : await extension.activate()).getAPI(1);
+            if (disposables !== this.disposables) {
+                // Turned off, or off and on again, while the git extension was starting
+                return;
+            }
+            const watch = (repository: GitRepository) => {
+                const update = () => {
+                    if (repository.state.mergeChanges.length > 0) {
+                        this.conflictedRepositories.add(repository);
+                    } else {
+                        this.conflictedRepositories.delete(repository);
+                    }
+                };
+                update();
+                this.disposables.push(repository.state.onDidChange(update));
+            };
+            git.repositories.forEach(watch);
+            this.disposables.push(git.onDidOpenRepository(watch));
+        } catch (error) {
+            this.log.warn('Could not watch git repositories for merge conflicts:', error);
+        }
+    }
+}
+
+/**
+ * Tell test and build tasks apart by their group, and by their name for tasks without one
+ */
+function classifyTask(task: vscode.Task): ActivityContext | undefined {
+    // Compared by id, the group may be a copy carrying isDefault
+    if (task.group?.id === vscode.TaskGroup.Test.id) {
+        return 'testing';
+    }
+    if (task.group?.id === vscode.TaskGroup.Build.id || task.group?.id === vscode.TaskGroup.Rebuild.id) {
+        return 'building';
+    }
+    return classifyCommand(task.name);
+}
+
+function classifyCommand(command: string): ActivityContext | undefined {
+    if (TEST_COMMAND.test(command)) {
+        return 'testing';
+    }
+    if (BUILD_COMMAND.test(command)) {
+        return 'building';
+    }
+    return undefined;
+}
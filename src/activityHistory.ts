@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { FileActivity } from './tagRanking';
+import { Logger } from './logger';
+
+// Version of the stored format; bump it, and migrate in load, when the format changes
+const SCHEMA_VERSION = 1;
+
+/**
+ * Activity kept across restarts. Records are per kind of file, never per path:
+ * the extension, or the name of files without one such as Dockerfile.
+ */
+export interface ActivityRecord {
+    key: string; // ".ts" for an extension, "dockerfile" for a file name
+    folder?: string; // Name of the workspace folder the files were in
+    activity: FileActivity;
+}
+
+// What is kept in workspaceState
+interface StoredActivityHistory {
+    version: number;
+    records: ActivityRecord[];
+}
+
+/**
+ * Keeps file activity in workspaceState between sessions, dropping records
+ * that haven't seen activity within the retention window
+ */
+export class ActivityHistory {
+    /**
+     * @param storage Workspace memento the history is kept in
+     * @param storageKey Key to keep it under
+     */
+    constructor(private readonly storage: vscode.Memento, private readonly storageKey: string = 'yna.activityHistory') {}
+
+    /**
+     * Get the records still within the retention window
+     * @param retentionMs How long a record is kept after its last activity
+     */
+    public load(retentionMs: number): ActivityRecord[] {
+        const stored = this.storage.get<StoredActivityHistory>(this.storageKey);
+        if (!stored) {
+            return [];
+        }
+        if (stored.version !== SCHEMA_VERSION || !Array.isArray(stored.records)) {
+            // Written by a newer version, or damaged; start over rather than guess
+            Logger.getInstance().info(`Ignoring file activity history with schema version ${stored.version}`);
+            return [];
+        }
+
+        const cutoff = Date.now() - retentionMs;
+        return stored.records.filter(record => isValidRecord(record) && record.activity.updatedAt >= cutoff);
+    }
+
+    /**
+     * Replace the stored records, leaving out those past the retention window
+     * @param retentionMs How long a record is kept after its last activity
+     */
+    public save(records: ActivityRecord[], retentionMs: number): void {
+        const cutoff = Date.now() - retentionMs;
+        const history: StoredActivityHistory = {
+            version: SCHEMA_VERSION,
+            records: records.filter(record => record.activity.updatedAt >= cutoff)
+        };
+        this.storage.update(this.storageKey, history).then(undefined, error => {
+            Logger.getInstance().error('Error saving file activity history:', error);
+        });
+    }
+}
+
+function isValidRecord(record: ActivityRecord): boolean {
+    const activity = record?.activity;
+    return typeof record?.key === 'string'
+        && (record.folder === undefined || typeof record.folder === 'string')
+        && typeof activity === 'object' && activity !== null
+        && [activity.dwellMs, activity.edits, activity.score, activity.updatedAt].every(value => typeof value === 'number' && isFinite(value));
+}
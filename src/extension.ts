@@ -1,14 +1,28 @@
 import * as vscode from 'vscode';
-import { WebSocketClient } from './webSocketClient';
+import { WebSocketClient, getConnectionQuality, describeAuthFailure, ConnectionDiagnostics } from './webSocketClient';
 import fetch from 'node-fetch';
 import { SecondaryCheckInView } from './secondaryCheckInView';
 import { FileHistoryTracker } from './fileHistoryTracker';
-import { getActiveFileTags } from './tagsUtils';
+import { getActiveFileTags, getFileTags, explainActiveFileTags } from './tagsUtils';
+import { TagChoices, pickTags } from './tagChoices';
+import { getActivePrivacyRule, describePrivacyRule } from './privacy';
+import { WorkspaceScanner } from './workspaceScanner';
+import { ActivityContextTracker } from './activityContextTracker';
+import { TrackingFilter } from './trackingFilter';
+import { ServerProfile, getServerProfiles, resolveActiveServerProfile } from './serverProfiles';
+import { getTransportMode } from './transport';
+import { ReconnectState } from './reconnectScheduler';
+import { Logger } from './logger';
+import { getProxyAgent, describeProxyStatus, describeProxyFailure } from './proxy';
 
 // GitHub Authentication namespace
 const GITHUB_AUTH_PROVIDER_ID = 'github';
 // The GitHub Authentication session scopes
 const SCOPES = ['user:email', 'read:user'];
+// Looked up to get the user's login
+const GITHUB_USER_URL = 'https://api.github.com/user';
+// Sources listed per tag by "Why These Tags?"
+const MAX_EXPLAINED_SOURCES = 5;
 
 // GitHub API user response interface
 interface GitHubUser {
@@ -19,12 +33,35 @@ interface GitHubUser {
 }
 
 export async function activate(context: vscode.ExtensionContext) {
-    // Create our WebSocket client with the deployed Cloudflare Worker URL
+    const log = Logger.getInstance();
+    context.subscriptions.push(log);
+    
+    // Resolve the server profile selected in the yna.server settings
+    const resolvedProfile = resolveActiveServerProfile();
+    let activeProfile: ServerProfile = resolvedProfile.profile;
+    if (resolvedProfile.warning) {
+        vscode.window.showWarningMessage(resolvedProfile.warning);
+    }
+    
+    // Create our WebSocket client for the active server profile
     // Don't auto-connect - we'll connect after checking authentication
-    const webSocketClient = new WebSocketClient('wss://yna-backend.renie-ravin.workers.dev', context.extensionUri, false);
+    const webSocketClient = new WebSocketClient(activeProfile.url, context, false);
+    // Disposed when the window closes, which hands its queued check-ins to the other windows
+    context.subscriptions.push(webSocketClient);
+    
+    // Leave the files matching yna.tracking.exclude, files.exclude or .gitignore out of tracking
+    context.subscriptions.push(TrackingFilter.getInstance());
     
-    // Get the file history tracker instance
+    // Get the file history tracker instance, with the activity of earlier sessions
     const fileTracker = FileHistoryTracker.getInstance();
+    fileTracker.restore(context.workspaceState);
+    context.subscriptions.push(fileTracker);
+    
+    // Start detecting frameworks from the workspace manifests, so they are known by the first check-in
+    context.subscriptions.push(WorkspaceScanner.getInstance());
+    
+    // Watch for debugging, tests, builds and merge conflicts once the user opts in, to send with check-ins
+    context.subscriptions.push(ActivityContextTracker.getInstance());
     
     // Create permanent status bar item for connection status and stats
     const statusBarPermanent = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 101);
@@ -44,10 +81,34 @@ export async function activate(context: vscode.ExtensionContext) {
             statusBarPermanent.text = '$(heart) You\'re not alone: sign in to connect';
         }
     } catch (error) {
-        console.error('Error checking authentication:', error);
+        log.error('Error checking authentication:', error);
         statusBarPermanent.text = '$(heart) You\'re not alone: authentication error';
     }
     
+    // Show the server profile and the connection quality measured by the heartbeat in the tooltip
+    function updateStatusBarTooltip() {
+        const latency = webSocketClient.getLatency();
+        let tooltip = 'Click to view check-ins';
+        const mode = webSocketClient.getMode();
+        if (mode === 'demo') {
+            tooltip += '\nDemo mode: check-ins are scripted and nothing is sent to a server';
+        } else if (mode === 'offline') {
+            tooltip += '\nOffline mode: check-ins are queued until you switch back to live';
+        } else {
+            tooltip += `\nServer: ${activeProfile.name} (${activeProfile.url})`;
+        }
+        if (latency !== undefined) {
+            tooltip += `\nConnection: ${getConnectionQuality(latency)} (${latency} ms round trip)`;
+        }
+        statusBarPermanent.tooltip = tooltip;
+    }
+    updateStatusBarTooltip();
+    
+    // Make it obvious when the stats come from the scripted demo
+    function getModeSuffix(): string {
+        return webSocketClient.getMode() === 'demo' ? ' (demo)' : '';
+    }
+    
     // Track temporary message state
     let temporaryMessageActive = false;
     let temporaryMessageTimeout: NodeJS.Timeout | null = null;
@@ -106,19 +167,37 @@ export async function activate(context: vscode.ExtensionContext) {
             const document = event.document;
             if (document.uri.scheme === 'file') {
                 addFileWithDebounce(document.fileName);
+                
+                // Count real edits for tag ranking, not dirty-state changes
+                if (event.contentChanges.length > 0) {
+                    fileTracker.recordEdit(document.fileName);
+                }
             }
         })
     );
     
-    // Also track when editors are switched/focused
+    // Also track when editors are switched/focused, and for how long
     context.subscriptions.push(
         vscode.window.onDidChangeActiveTextEditor(editor => {
             if (editor && editor.document && editor.document.uri.scheme === 'file') {
                 addFileWithDebounce(editor.document.fileName);
+                fileTracker.setFocusedFile(editor.document.fileName);
+            } else {
+                fileTracker.setFocusedFile(null);
             }
         })
     );
     
+    // Focus time only counts while the user is around
+    context.subscriptions.push(
+        vscode.window.onDidChangeWindowState(state => {
+            fileTracker.setWindowFocused(state.focused);
+        }),
+        vscode.window.onDidChangeTextEditorSelection(() => {
+            fileTracker.recordInteraction();
+        })
+    );
+    
     // Track files when they're initially opened
     context.subscriptions.push(
         vscode.workspace.onDidOpenTextDocument(document => {
@@ -144,6 +223,8 @@ export async function activate(context: vscode.ExtensionContext) {
     
     // Handle WebSocket connection status changes
     webSocketClient.onConnectionStatusChanged(connected => {
+        updateStatusBarTooltip();
+        
         if (temporaryMessageActive) {
             // Skip updating if a temporary message is active
             return;
@@ -153,11 +234,91 @@ export async function activate(context: vscode.ExtensionContext) {
             statusBarPermanent.text = '$(heart) Loading stats...';
             // When connected, request the latest stats
             webSocketClient.requestOnlineUsers();
+        } else if (webSocketClient.getMode() === 'offline') {
+            statusBarPermanent.text = '$(heart) You\'re not alone: offline mode';
         } else {
             statusBarPermanent.text = '$(heart) You\'re not alone: disconnected';
         }
     });
     
+    // Ask the user to sign in again when the server refuses our credentials
+    webSocketClient.onAuthFailed(async reason => {
+        statusBarPermanent.text = '$(heart) You\'re not alone: sign in again to connect';
+        statusBarPermanent.command = 'yna.signInAgain';
+        
+        const choice = await vscode.window.showErrorMessage(
+            `${describeAuthFailure(reason)} Sign in again to reconnect to You're Not Alone.`,
+            'Sign In Again'
+        );
+        if (choice === 'Sign In Again') {
+            vscode.commands.executeCommand('yna.signInAgain');
+        }
+    });
+    
+    // Show when the next reconnect attempt happens, or that reconnecting has stopped
+    let reconnectCountdownTimer: NodeJS.Timeout | null = null;
+    webSocketClient.onReconnectStateChanged(state => {
+        if (reconnectCountdownTimer) {
+            clearInterval(reconnectCountdownTimer);
+            reconnectCountdownTimer = null;
+        }
+        
+        // Clicking only retries while paused
+        if (state.status !== 'paused' && statusBarPermanent.command === 'yna.retryConnection') {
+            statusBarPermanent.command = 'yna.openCheckInView';
+        }
+        
+        if (temporaryMessageActive) {
+            return;
+        }
+        
+        if (state.status === 'scheduled') {
+            const showCountdown = () => {
+                const seconds = Math.max(0, Math.ceil((state.retryAt - Date.now()) / 1000));
+                statusBarPermanent.text = `$(heart) You're not alone: reconnecting in ${seconds}s`;
+            };
+            showCountdown();
+            reconnectCountdownTimer = setInterval(showCountdown, 1000);
+        } else if (state.status === 'connecting') {
+            statusBarPermanent.text = '$(heart) You\'re not alone: connecting...';
+        } else if (state.status === 'suspended') {
+            statusBarPermanent.text = '$(heart) You\'re not alone: disconnected, reconnects when the window is focused';
+        } else if (state.status === 'paused') {
+            statusBarPermanent.text = '$(heart) You\'re not alone: connection paused, click to retry';
+            statusBarPermanent.command = 'yna.retryConnection';
+        }
+    });
+    context.subscriptions.push({
+        dispose: () => {
+            if (reconnectCountdownTimer) {
+                clearInterval(reconnectCountdownTimer);
+            }
+        }
+    });
+    
+    // Point the user to the extension page when the server wants a newer version
+    let updateSuggestionShown = false;
+    webSocketClient.onUpdateSuggested(async suggestion => {
+        if (suggestion.required) {
+            statusBarPermanent.text = '$(heart) You\'re not alone: update required';
+        } else if (updateSuggestionShown) {
+            // Only mention optional updates once per session
+            return;
+        }
+        updateSuggestionShown = true;
+        
+        const show = suggestion.required ? vscode.window.showErrorMessage : vscode.window.showInformationMessage;
+        const choice = await show(suggestion.message, 'Update Extension');
+        if (choice === 'Update Extension') {
+            vscode.commands.executeCommand('extension.open', context.extension.id);
+        }
+    });
+    
+    // Update the tooltip whenever a heartbeat measures the round-trip time
+    webSocketClient.onLatencyChanged(() => {
+        updateStatusBarTooltip();
+    });
+    
     // Update stats when online users count changes
     webSocketClient.onOnlineUsersChanged(count => {
         if (temporaryMessageActive) {
@@ -167,7 +328,7 @@ export async function activate(context: vscode.ExtensionContext) {
         
         if (webSocketClient.isConnected()) {
             const checkInsCount = checkInViewProvider.getCheckInsCount();
-            statusBarPermanent.text = `$(heart) ${count} fellow dev${count === 1 ? '' : 's'} online • ${checkInsCount} check-in${checkInsCount === 1 ? '' : 's'}`;
+            statusBarPermanent.text = `$(heart) ${count} fellow dev${count === 1 ? '' : 's'} online • ${checkInsCount} check-in${checkInsCount === 1 ? '' : 's'}${getModeSuffix()}`;
         }
     });
     
@@ -180,7 +341,7 @@ export async function activate(context: vscode.ExtensionContext) {
         
         if (webSocketClient.isConnected()) {
             const onlineCount = webSocketClient.getOnlineUsersCount();
-            statusBarPermanent.text = `$(heart) ${onlineCount} fellow dev${onlineCount === 1 ? '' : 's'} online • ${count} check-in${count === 1 ? '' : 's'}`;
+            statusBarPermanent.text = `$(heart) ${onlineCount} fellow dev${onlineCount === 1 ? '' : 's'} online • ${count} check-in${count === 1 ? '' : 's'}${getModeSuffix()}`;
         }
     });
     
@@ -245,18 +406,10 @@ export async function activate(context: vscode.ExtensionContext) {
             return;
         }
         
-        // Ensure WebSocket is connected
-        if (!webSocketClient.isConnected()) {
-            webSocketClient.reconnect();
-            
+        // Ensure WebSocket is connected, without restarting a handshake in progress
+        if (webSocketClient.ensureConnected()) {
             // Wait a moment for the connection to establish
             await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            // Verify connection
-            if (!webSocketClient.isConnected()) {
-                vscode.window.showErrorMessage('Could not connect to YNA server. Please try again later.');
-                return;
-            }
         }
         
         // Check if user is on cooldown
@@ -266,11 +419,13 @@ export async function activate(context: vscode.ExtensionContext) {
             return;
         }
         
-        // Automatically get the active file's language as tags
-        const activeLanguageTags = getActiveFileTags();
+        // The server decides how long messages can be and how many tags it keeps
+        const limits = webSocketClient.getLimits();
+        const MAX_CHARS = limits.maxMessageLength;
         
-        // Define the character limit
-        const MAX_CHARS = 42;
+        // Offer a few more detected tags than the server keeps, so there is something to swap in
+        const tagChoices = new TagChoices(context.workspaceState);
+        const suggestions = tagChoices.getSuggestions(getActiveFileTags(limits.maxTags * 2), limits.maxTags);
         
         // Prompt for a message
         const messageInput = await vscode.window.showInputBox({
@@ -294,21 +449,34 @@ export async function activate(context: vscode.ExtensionContext) {
             return;
         }
         
-        // Use detected tags automatically
-        const tags = activeLanguageTags;
+        // Let the user review the detected tags and add their own, unless a privacy rule decides them
+        const privacyRule = getActivePrivacyRule();
+        let tags = suggestions.filter(suggestion => suggestion.selected).map(suggestion => suggestion.tag);
+        if (privacyRule?.mode !== 'exclude' && privacyRule?.mode !== 'label') {
+            const pickedTags = await pickTags(suggestions, limits.maxTags, privacyRule && describePrivacyRule(privacyRule));
+            if (pickedTags === undefined) {
+                return;
+            }
+            tagChoices.remember(suggestions, pickedTags);
+            tags = pickedTags;
+        }
         
-        // Send check-in to server (WebSocketClient will handle the snippet)
-        const success = await webSocketClient.sendCheckIn(username, tags, messageInput || '');
+        // Send check-in to server (WebSocketClient will handle the snippet and the privacy rules)
+        const result = await webSocketClient.sendCheckIn(username, tags, messageInput || '');
+        tags = result.tags ?? tags;
+        const privacyNote = result.privacyRule ? ' (privacy rule applied)' : '';
         
         // Show temporary confirmation in the status bar
-        if (success) {
+        if (result.status === 'queued') {
+            showTemporaryStatusMessage('Check-in queued, it will be sent once the server is reachable');
+        } else if (result.status === 'accepted') {
             if (tags.length > 0) {
-                showTemporaryStatusMessage(`Checked in as ${username} working on ${tags.join(', ')}`);
+                showTemporaryStatusMessage(`Checked in as ${username} working on ${tags.join(', ')}${privacyNote}`);
             } else {
-                showTemporaryStatusMessage(`Checked in as ${username}`);
+                showTemporaryStatusMessage(`Checked in as ${username}${privacyNote}`);
             }
         } else {
-            vscode.window.showErrorMessage('Check-in failed. Please try again later.');
+            vscode.window.showErrorMessage(`Check-in failed: ${result.reason ?? 'Please try again later.'}`);
         }
     });
     
@@ -321,8 +489,8 @@ export async function activate(context: vscode.ExtensionContext) {
     // Register the logout command
     const logoutCommand = vscode.commands.registerCommand('yna.logout', async () => {
         try {
-            // Disconnect from WebSocket
-            webSocketClient.dispose();
+            // Disconnect from WebSocket; the client is used again after the next sign-in
+            webSocketClient.disconnect();
             
             // Sign out by clearing the session - using the proper VS Code API
             const session = await vscode.authentication.getSession(
@@ -343,11 +511,183 @@ export async function activate(context: vscode.ExtensionContext) {
                 vscode.commands.executeCommand('yna.authChanged', false);
             }, 500);
         } catch (error) {
-            console.error('Error logging out:', error);
+            log.error('Error logging out:', error);
             vscode.window.showErrorMessage('Failed to log out: ' + (error instanceof Error ? error.message : 'Unknown error'));
         }
     });
 
+    // Register the re-sign-in command, used after the server rejected our session
+    const signInAgainCommand = vscode.commands.registerCommand('yna.signInAgain', async () => {
+        try {
+            // Force a fresh session, the current one was refused by the server
+            const session = await vscode.authentication.getSession(
+                GITHUB_AUTH_PROVIDER_ID,
+                SCOPES,
+                { forceNewSession: { detail: 'Your GitHub session was rejected by the You\'re Not Alone server.' } }
+            );
+            
+            if (session) {
+                statusBarPermanent.command = 'yna.openCheckInView';
+                statusBarPermanent.text = '$(heart) You\'re not alone: connecting...';
+                vscode.commands.executeCommand('yna.authChanged', true);
+            }
+        } catch (error) {
+            log.error('Error signing in again:', error);
+            vscode.window.showErrorMessage('Failed to sign in: ' + (error instanceof Error ? error.message : 'Unknown error'));
+        }
+    });
+
+    // Switch to the server profile selected in the settings, if it changed
+    function applyServerProfile() {
+        const resolved = resolveActiveServerProfile();
+        if (resolved.warning) {
+            vscode.window.showWarningMessage(resolved.warning);
+        }
+        
+        const previousUrl = activeProfile.url;
+        activeProfile = resolved.profile;
+        updateStatusBarTooltip();
+        
+        if (activeProfile.url !== previousUrl) {
+            webSocketClient.switchServer(activeProfile.url);
+            statusBarPermanent.text = `$(heart) You're not alone: connecting to ${activeProfile.name}...`;
+        }
+    }
+    
+    // Switch between live, demo and offline mode
+    function applyMode() {
+        const mode = getTransportMode();
+        if (mode === webSocketClient.getMode()) {
+            return;
+        }
+        
+        webSocketClient.setMode(mode);
+        updateStatusBarTooltip();
+        if (mode === 'demo') {
+            statusBarPermanent.text = '$(heart) You\'re not alone: starting demo...';
+        } else if (mode === 'live') {
+            statusBarPermanent.text = `$(heart) You're not alone: connecting to ${activeProfile.name}...`;
+        }
+    }
+    
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('yna.server')) {
+                applyServerProfile();
+            }
+            if (event.affectsConfiguration('yna.mode')) {
+                applyMode();
+            }
+        })
+    );
+    
+    // Register the command that retries after reconnecting was paused
+    const retryConnectionCommand = vscode.commands.registerCommand('yna.retryConnection', () => {
+        webSocketClient.retryConnection();
+    });
+
+    // Register the command that reports the connection state, for troubleshooting
+    const showDiagnosticsCommand = vscode.commands.registerCommand('yna.showDiagnostics', async () => {
+        const diagnostics = webSocketClient.getDiagnostics();
+        const lines = [
+            `Mode: ${diagnostics.mode}`,
+            `Server profile: ${activeProfile.name} (${diagnostics.serverUrl})`,
+            `Connection: ${diagnostics.state}`,
+            `Round trip: ${diagnostics.latencyMs !== undefined ? diagnostics.latencyMs + ' ms (' + getConnectionQuality(diagnostics.latencyMs) + ')' : 'not measured'}`,
+            `Last close: ${diagnostics.lastClose
+                ? 'code ' + diagnostics.lastClose.code + (diagnostics.lastClose.reason ? ' (' + diagnostics.lastClose.reason + ')' : '') + ' at ' + new Date(diagnostics.lastClose.at).toLocaleTimeString()
+                : 'none'}`,
+            `Last error: ${diagnostics.lastError ?? 'none'}`,
+            `Proxy: ${diagnostics.proxy ?? 'none'}`,
+            `Reconnect: ${describeReconnectState(diagnostics.reconnect)}`,
+            `Shared connection: ${describeSharedConnection(diagnostics.sharedConnection)}`,
+            `Last history size: ${diagnostics.lastHistorySize ?? 'no history received'}`,
+            `Protocol version: ${diagnostics.protocolVersion ?? 'not negotiated'}`,
+            `Rejected frames: ${diagnostics.rejectedFrameCount}`,
+            `Queued check-ins: ${diagnostics.queuedCheckIns}`
+        ];
+        
+        log.info(`Connection diagnostics:\n${lines.join('\n')}`);
+        
+        const choice = await vscode.window.showInformationMessage(
+            'You\'re Not Alone connection diagnostics',
+            { modal: true, detail: lines.join('\n') },
+            'Show Log',
+            'Copy'
+        );
+        if (choice === 'Show Log') {
+            log.show();
+        } else if (choice === 'Copy') {
+            await vscode.env.clipboard.writeText(lines.join('\n'));
+        }
+    });
+
+    // Register the command that shows which tags the open editors produce, to tune yna.tags settings
+    const previewTagsCommand = vscode.commands.registerCommand('yna.previewTags', async () => {
+        // What the check-in form would preselect, including the user's remembered choices
+        const maxTags = webSocketClient.getLimits().maxTags;
+        const checkInTags = new TagChoices(context.workspaceState)
+            .getSuggestions(getActiveFileTags(maxTags * 2), maxTags)
+            .filter(suggestion => suggestion.selected)
+            .map(suggestion => suggestion.tag);
+        const lines = vscode.window.visibleTextEditors
+            .filter(editor => editor.document.uri.scheme === 'file')
+            .map(editor => {
+                const fileTags = getFileTags(editor.document.fileName, editor.document.languageId);
+                return `${vscode.workspace.asRelativePath(editor.document.uri)}: ${fileTags.join(', ') || 'no tags'}`;
+            });
+        
+        const choice = await vscode.window.showInformationMessage(
+            checkInTags.length > 0 ? `Your next check-in would be tagged: ${checkInTags.join(', ')}` : 'Your next check-in would have no tags',
+            { modal: true, detail: lines.length > 0 ? lines.join('\n') : 'No files are open' },
+            'Edit Tag Settings'
+        );
+        if (choice === 'Edit Tag Settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'yna.tags');
+        }
+    });
+
+    // Register the command that shows which tracked files and manifests each detected tag comes from
+    const explainTagsCommand = vscode.commands.registerCommand('yna.explainTags', async () => {
+        const explained = explainActiveFileTags(webSocketClient.getLimits().maxTags * 2);
+        const lines = explained.map(({ tag, sources }) => {
+            const shown = sources.slice(0, MAX_EXPLAINED_SOURCES).map(source => `  ${source}`);
+            if (sources.length > MAX_EXPLAINED_SOURCES) {
+                shown.push(`  and ${sources.length - MAX_EXPLAINED_SOURCES} more`);
+            }
+            return [`${tag}:`, ...shown].join('\n');
+        });
+        lines.push('Files matching yna.tracking.exclude, files.exclude or .gitignore are never tracked.');
+        
+        const choice = await vscode.window.showInformationMessage(
+            explained.length > 0 ? 'Why these tags?' : 'No tags were detected from your recent files',
+            { modal: true, detail: lines.join('\n\n') },
+            'Edit Tracking Settings'
+        );
+        if (choice === 'Edit Tracking Settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'yna.tracking');
+        }
+    });
+
+    // Register the command to pick another server profile
+    const switchServerCommand = vscode.commands.registerCommand('yna.switchServer', async () => {
+        const items = getServerProfiles().map(profile => ({
+            label: profile.name,
+            description: profile.url,
+            detail: profile.name === activeProfile.name ? 'Currently connected' : undefined
+        }));
+        
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the You\'re Not Alone server to connect to'
+        });
+        if (!picked || picked.label === activeProfile.name) {
+            return;
+        }
+        
+        // The configuration listener reconnects once the setting is saved
+        await vscode.workspace.getConfiguration('yna.server').update('profile', picked.label, vscode.ConfigurationTarget.Global);
+    });
+
     // Register a command to handle authentication status changes
     const authChangedCommand = vscode.commands.registerCommand('yna.authChanged', async (isAuthenticated: boolean) => {
         webSocketClient.updateAuthStatus(isAuthenticated);
@@ -368,10 +708,48 @@ export async function activate(context: vscode.ExtensionContext) {
         hideStatusBarNotificationCommand,
         showTemporaryMessageCommand,
         openCheckInViewCommand,
-        authChangedCommand
+        authChangedCommand,
+        signInAgainCommand,
+        switchServerCommand,
+        showDiagnosticsCommand,
+        retryConnectionCommand,
+        previewTagsCommand,
+        explainTagsCommand
     );
 }
 
+/**
+ * Describe the reconnect state for the diagnostics report
+ */
+function describeReconnectState(state: ReconnectState): string {
+    switch (state.status) {
+        case 'scheduled':
+            return `attempt ${state.attempt}${state.maxAttempts > 0 ? ' of ' + state.maxAttempts : ''} in ${Math.max(0, Math.ceil((state.retryAt - Date.now()) / 1000))} s`;
+        case 'connecting':
+            return `attempt ${state.attempt} in progress`;
+        case 'suspended':
+            return 'suspended until the window is focused';
+        case 'paused':
+            return `paused after ${state.attempts} failed attempts`;
+        default:
+            return 'not needed';
+    }
+}
+
+/**
+ * Describe this window's part in the connection shared between windows
+ */
+function describeSharedConnection(sharing: ConnectionDiagnostics['sharedConnection']): string {
+    if (!sharing) {
+        return 'not shared';
+    }
+    if (sharing.role === 'follower') {
+        return 'using the connection of another window';
+    }
+    const followers = sharing.followers ?? 0;
+    return `held for ${followers} other window${followers === 1 ? '' : 's'}`;
+}
+
 export function deactivate() {
     // Clean up resources when extension is deactivated
 }
@@ -402,27 +780,33 @@ export async function getAuthenticatedGitHubUsername(context?: vscode.ExtensionC
             const accessToken = session.accessToken;
             
             // Call GitHub API
-            const userResponse = await fetch('https://api.github.com/user', {
+            const userResponse = await fetch(GITHUB_USER_URL, {
                 headers: {
                     'Authorization': `token ${accessToken}`,
                     'User-Agent': 'YNA-VSCode-Extension'
-                }
+                },
+                agent: getProxyAgent(GITHUB_USER_URL)
             });
             
             if (userResponse.ok) {
                 const userData = await userResponse.json() as GitHubUser;
+                Logger.getInstance().debug(`Signed in to GitHub as ${userData.login}`);
                 return userData.login; // GitHub username
             } else {
-                vscode.window.showErrorMessage('Failed to get GitHub user information');
+                Logger.getInstance().warn(`GitHub user lookup failed with status ${userResponse.status}`);
+                const proxyProblem = describeProxyStatus(userResponse.status);
+                vscode.window.showErrorMessage(`Failed to get GitHub user information${proxyProblem ? '. ' + proxyProblem : ''}`);
                 return undefined;
             }
         } else {
+            Logger.getInstance().warn('GitHub authentication failed, no session');
             vscode.window.showErrorMessage('GitHub authentication failed');
             return undefined;
         }
     } catch (error) {
-        console.error('Failed to authenticate with GitHub:', error);
-        vscode.window.showErrorMessage(`GitHub authentication error: ${error instanceof Error ? error.message : String(error)}`);
+        Logger.getInstance().error('Failed to authenticate with GitHub:', error);
+        const message = error instanceof Error ? describeProxyFailure(GITHUB_USER_URL, error) ?? error.message : String(error);
+        vscode.window.showErrorMessage(`GitHub authentication error: ${message}`);
         return undefined;
     }
 }
\ No newline at end of file
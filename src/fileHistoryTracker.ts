@@ -1,20 +1,52 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { FileActivity, recordActivity, getDecayedScore, combineActivity } from './tagRanking';
+import { ActivityHistory, ActivityRecord } from './activityHistory';
+import { getPrivacyRule } from './privacy';
+import { TrackingFilter } from './trackingFilter';
+
+// Focus time stops counting after this long without typing or moving the cursor
+const IDLE_CUTOFF_MS = 5 * 60 * 1000;
+// Files with recorded activity to keep; the least active are forgotten first
+const MAX_TRACKED_FILES = 200;
+// Activity is written to workspaceState at most this often
+const SAVE_DELAY_MS = 30 * 1000;
+// Files without an extension that are stored by name; any other name could say too much
+const KNOWN_FILE_NAMES = new Set([
+    'dockerfile', 'containerfile', 'makefile', 'gnumakefile', 'justfile', 'jenkinsfile', 'vagrantfile',
+    'procfile', 'gemfile', 'rakefile', 'podfile', 'brewfile'
+]);
 
 /**
- * Class to track recently edited files in the current session
+ * Class to track recently edited files in the current session,
+ * with how long each had focus and how often it was edited.
+ * Once restored, activity is also kept across restarts, per kind of file rather than per path.
  */
-export class FileHistoryTracker {
+export class FileHistoryTracker implements vscode.Disposable {
     private static instance: FileHistoryTracker;
-    private recentFiles: Set<string> = new Set();
+    private recentFiles = new Map<string, string | undefined>(); // File path to the URI of its workspace folder
     private maxHistorySize: number = 30;
+    private activity = new Map<string, FileActivity>(); // By file path
+    private focusedFile: string | null = null;
+    private focusStartedAt = Date.now(); // Start of the focus time not yet recorded
+    private lastInteractionAt = Date.now();
+    private windowFocused = vscode.window.state.focused;
+    private history?: ActivityHistory; // Set once restored
+    private pastActivity = new Map<string, ActivityRecord>(); // From earlier sessions, by record id
+    private saveTimer?: NodeJS.Timeout;
+    private filter = TrackingFilter.getInstance();
+    private filterSubscription: vscode.Disposable;
 
     private constructor() {
+        // Forget files that an updated setting or .gitignore now excludes
+        this.filterSubscription = this.filter.onDidChange(() => this.dropExcludedFiles());
+
         // Initialize with the current active editor if any
         const activeEditor = vscode.window.activeTextEditor;
         if (activeEditor && activeEditor.document.uri.scheme === 'file') {
             const fileName = activeEditor.document.fileName as string;
             this.addFile(fileName);
+            this.focusedFile = this.filter.isExcluded(fileName) ? null : fileName;
         }
     }
 
@@ -29,20 +61,24 @@ export class FileHistoryTracker {
     }
 
     /**
-     * Add a file to the history
+     * Add a file to the history, unless it is excluded from tracking
      */
     public addFile(filePath: string): void {
+        if (this.filter.isExcluded(filePath)) {
+            return;
+        }
+
         // Remove if already exists (to make it most recent)
         if (this.recentFiles.has(filePath)) {
             this.recentFiles.delete(filePath);
         }
         
-        // Add to the set
-        this.recentFiles.add(filePath);
+        // Add to the map, with the workspace folder it belongs to
+        this.recentFiles.set(filePath, vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.toString());
         
         // Trim if exceeds max size
         if (this.recentFiles.size > this.maxHistorySize) {
-            const oldest = this.recentFiles.values().next().value;
+            const oldest = this.recentFiles.keys().next().value;
             if (oldest !== undefined) {
                 this.recentFiles.delete(oldest);
             }
@@ -53,7 +89,91 @@ export class FileHistoryTracker {
      * Get all recent file paths
      */
     public getRecentFiles(): string[] {
-        return Array.from(this.recentFiles);
+        return Array.from(this.recentFiles.keys());
+    }
+
+    /**
+     * Get the workspace folder a file belongs to.
+     * Files recorded before their folder was added to the workspace are attributed again.
+     */
+    public getFolder(filePath: string): vscode.WorkspaceFolder | undefined {
+        const folderUri = this.recentFiles.get(filePath);
+        const recorded = folderUri ? vscode.workspace.workspaceFolders?.find(folder => folder.uri.toString() === folderUri) : undefined;
+        if (recorded) {
+            return recorded;
+        }
+        
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        if (this.recentFiles.has(filePath)) {
+            this.recentFiles.set(filePath, folder?.uri.toString());
+        }
+        return folder;
+    }
+
+    /**
+     * Start counting focus time for another file
+     * @param filePath File now in the active editor, or null if no file is
+     */
+    public setFocusedFile(filePath: string | null): void {
+        this.recordDwell();
+        // Time in an excluded file counts for no file
+        this.focusedFile = filePath && !this.filter.isExcluded(filePath) ? filePath : null;
+        this.lastInteractionAt = Date.now();
+    }
+
+    /**
+     * Pause focus time while VS Code is in the background
+     */
+    public setWindowFocused(focused: boolean): void {
+        this.recordDwell();
+        this.windowFocused = focused;
+        this.lastInteractionAt = Date.now();
+    }
+
+    /**
+     * Count an edit to a file
+     */
+    public recordEdit(filePath: string): void {
+        this.recordDwell();
+        if (!this.filter.isExcluded(filePath)) {
+            this.updateActivity(filePath, { edits: 1 });
+        }
+        this.lastInteractionAt = Date.now();
+    }
+
+    /**
+     * Note that the user is still at work, e.g. moving the cursor, so focus time keeps counting
+     */
+    public recordInteraction(): void {
+        this.recordDwell();
+        this.lastInteractionAt = Date.now();
+    }
+
+    /**
+     * Get the activity recorded for a file, including the current focus time
+     */
+    public getActivity(filePath: string): FileActivity | undefined {
+        this.recordDwell();
+        return this.activity.get(filePath);
+    }
+
+    /**
+     * Load the activity of earlier sessions and keep this session's for the next ones
+     * @param storage Workspace memento the activity is kept in
+     */
+    public restore(storage: vscode.Memento): void {
+        this.history = new ActivityHistory(storage);
+        this.pastActivity.clear();
+        this.history.load(getRetentionMs())
+            .filter(record => isStorableKey(record.key))
+            .forEach(record => this.pastActivity.set(getRecordId(record), record));
+    }
+
+    /**
+     * Get the activity of earlier sessions; this session's is in getActivity
+     */
+    public getPastActivity(): ActivityRecord[] {
+        return Array.from(this.pastActivity.values());
     }
 
     /**
@@ -61,5 +181,125 @@ export class FileHistoryTracker {
      */
     public clear(): void {
         this.recentFiles.clear();
+        this.activity.clear();
+        this.pastActivity.clear();
+        this.save();
+    }
+
+    public dispose() {
+        this.filterSubscription.dispose();
+        this.recordDwell();
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+        this.save();
+    }
+
+    /**
+     * Add the focus time since the last call to the focused file
+     */
+    private recordDwell(): void {
+        const now = Date.now();
+        if (this.focusedFile && this.windowFocused) {
+            // Time spent away from the keyboard doesn't count
+            const end = Math.min(now, this.lastInteractionAt + IDLE_CUTOFF_MS);
+            if (end > this.focusStartedAt) {
+                this.updateActivity(this.focusedFile, { dwellMs: end - this.focusStartedAt });
+            }
+        }
+        this.focusStartedAt = now;
     }
+
+    private dropExcludedFiles(): void {
+        this.recordDwell();
+        this.getRecentFiles().filter(filePath => this.filter.isExcluded(filePath)).forEach(filePath => this.recentFiles.delete(filePath));
+        Array.from(this.activity.keys()).filter(filePath => this.filter.isExcluded(filePath)).forEach(filePath => this.activity.delete(filePath));
+        if (this.focusedFile && this.filter.isExcluded(this.focusedFile)) {
+            this.focusedFile = null;
+        }
+    }
+
+    private updateActivity(filePath: string, change: { dwellMs?: number, edits?: number }): void {
+        const now = Date.now();
+        this.activity.set(filePath, recordActivity(this.activity.get(filePath), change, now));
+
+        if (this.activity.size > MAX_TRACKED_FILES) {
+            // Forget the file with the least activity left
+            let leastActive: string | undefined;
+            let leastScore = Infinity;
+            this.activity.forEach((activity, file) => {
+                const score = getDecayedScore(activity, now);
+                if (file !== filePath && score < leastScore) {
+                    leastScore = score;
+                    leastActive = file;
+                }
+            });
+            if (leastActive !== undefined) {
+                this.activity.delete(leastActive);
+            }
+        }
+
+        this.scheduleSave();
+    }
+
+    private scheduleSave(): void {
+        if (!this.history || this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save();
+        }, SAVE_DELAY_MS);
+    }
+
+    /**
+     * Store the earlier sessions' activity combined with this session's.
+     * Files covered by a privacy rule are left out.
+     */
+    private save(): void {
+        if (!this.history) {
+            return;
+        }
+
+        const now = Date.now();
+        const records = new Map(this.pastActivity);
+        this.activity.forEach((activity, filePath) => {
+            const key = getRecordKey(filePath);
+            if (!key || getPrivacyRule(filePath)) {
+                return;
+            }
+            const record: ActivityRecord = { key, folder: this.getFolder(filePath)?.name, activity };
+            const id = getRecordId(record);
+            records.set(id, { ...record, activity: combineActivity(records.get(id)?.activity, activity, now) });
+        });
+        this.history.save(Array.from(records.values()), getRetentionMs());
+    }
+}
+
+/**
+ * How long activity is kept, from yna.tracking.retentionDays
+ */
+function getRetentionMs(): number {
+    const days = vscode.workspace.getConfiguration('yna.tracking').get<number>('retentionDays', 7);
+    return Math.max(0, days) * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * The kind of a file, as stored: its extension, or for well-known files without one, its name
+ * @returns the key, or undefined if nothing about the file may be stored
+ */
+function getRecordKey(filePath: string): string | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    const name = path.basename(filePath).toLowerCase();
+    return extension || (KNOWN_FILE_NAMES.has(name) ? name : undefined);
+}
+
+/**
+ * Whether a stored key is one getRecordKey can produce; older versions stored any file name
+ */
+function isStorableKey(key: string): boolean {
+    return /^\.[^./\\]+$/.test(key) || KNOWN_FILE_NAMES.has(key);
+}
+
+function getRecordId(record: ActivityRecord): string {
+    return `${record.folder ?? ''}/${record.key}`;
 } 
\ No newline at end of file
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+
+// Secrets that must never reach the log, with what to replace them by
+const REDACTIONS: [RegExp, string][] = [
+    // GitHub access tokens
+    [/\b(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,})\b/g, '[redacted]'],
+    // Credentials inside protocol frames
+    [/"(token|accessToken|signature|key|nonce)"\s*:\s*"[^"]*"/g, '"$1":"[redacted]"'],
+    // Authorization headers
+    [/(authorization['"]?\s*[:=]\s*['"]?)(token|bearer|basic)\s+[^\s'",}]+/gi, '$1$2 [redacted]'],
+    // Credentials in URLs
+    [/([?&](?:token|access_token)=)[^&\s]+/gi, '$1[redacted]']
+];
+
+/**
+ * Remove tokens, signatures and session keys from a log line
+ */
+export function redact(text: string): string {
+    return REDACTIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Turn log arguments into text, errors with their stack
+ */
+function format(message: string, args: unknown[]): string {
+    const parts = args.map(arg => {
+        if (arg instanceof Error) {
+            return arg.stack ?? arg.message;
+        }
+        if (typeof arg === 'object' && arg !== null) {
+            try {
+                return JSON.stringify(arg);
+            } catch {
+                return String(arg);
+            }
+        }
+        return String(arg);
+    });
+    return redact([message, ...parts].join(' '));
+}
+
+/**
+ * Writes diagnostics to the "You're Not Alone" output channel.
+ * The level is controlled by the user through the channel's log level setting.
+ */
+export class Logger {
+    private static instance: Logger;
+    private channel: vscode.LogOutputChannel;
+
+    private constructor() {
+        this.channel = vscode.window.createOutputChannel('You\'re Not Alone', { log: true });
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): Logger {
+        if (!Logger.instance) {
+            Logger.instance = new Logger();
+        }
+        return Logger.instance;
+    }
+
+    public trace(message: string, ...args: unknown[]): void {
+        this.channel.trace(format(message, args));
+    }
+
+    public debug(message: string, ...args: unknown[]): void {
+        this.channel.debug(format(message, args));
+    }
+
+    public info(message: string, ...args: unknown[]): void {
+        this.channel.info(format(message, args));
+    }
+
+    public warn(message: string, ...args: unknown[]): void {
+        this.channel.warn(format(message, args));
+    }
+
+    public error(message: string, ...args: unknown[]): void {
+        this.channel.error(format(message, args));
+    }
+
+    /**
+     * Reveal the output channel
+     */
+    public show(): void {
+        this.channel.show(true);
+    }
+
+    public dispose(): void {
+        this.channel.dispose();
+    }
+}
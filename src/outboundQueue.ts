@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { CheckInMessage } from './webSocketClient';
+import { Logger } from './logger';
+
+/**
+ * A check-in waiting to be delivered to the server
+ */
+export interface QueuedCheckIn {
+    checkIn: CheckInMessage; // Unsigned check-in, signed when it is actually sent
+    queuedAt: number; // When the check-in was queued (ms since epoch)
+    owner?: string; // Window that sends it, unset once released
+    claimedAt?: number; // When the owner last claimed it (ms since epoch)
+}
+
+// A claim older than this is taken to belong to a window that crashed, and is taken over
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Persistent queue of check-ins made while disconnected.
+ * Entries live in globalState so they survive a restart, and stay queued
+ * until the server acknowledges them.
+ * globalState is shared by all windows, so each entry is sent by one window only:
+ * the one that queued it, or the first to claim it once that window has gone away.
+ */
+export class OutboundQueue {
+    /**
+     * @param storage Memento the queue is kept in
+     * @param owner Id of the window this queue sends for
+     * @param storageKey Key to keep it under, separate queues need separate keys
+     */
+    constructor(
+        private readonly storage: vscode.Memento,
+        private readonly owner: string,
+        private readonly storageKey: string = 'yna.outboundQueue'
+    ) {}
+
+    /**
+     * Get all queued check-ins, oldest first
+     */
+    public getAll(): QueuedCheckIn[] {
+        return this.storage.get<QueuedCheckIn[]>(this.storageKey, []);
+    }
+
+    /**
+     * Check if a check-in with the given id is still waiting for acknowledgement
+     */
+    public has(id: string): boolean {
+        return this.getAll().some(entry => entry.checkIn.id === id);
+    }
+
+    /**
+     * Add a check-in to the end of the queue
+     */
+    public enqueue(checkIn: CheckInMessage): void {
+        const entries = this.getAll();
+        const now = Date.now();
+        entries.push({ checkIn, queuedAt: now, owner: this.owner, claimedAt: now });
+        this.save(entries);
+    }
+
+    /**
+     * Take the check-ins this window is to send: its own, released ones, and those of
+     * windows whose claim lapsed. Claims are renewed, so other windows leave them alone.
+     * @returns the claimed check-ins, oldest first
+     */
+    public claim(): QueuedCheckIn[] {
+        const now = Date.now();
+        const entries = this.getAll();
+        const claimed = entries.filter(entry => entry.owner === undefined || entry.owner === this.owner
+            || (entry.claimedAt ?? 0) < now - CLAIM_LEASE_MS);
+        if (claimed.length === 0) {
+            return [];
+        }
+
+        claimed.forEach(entry => {
+            entry.owner = this.owner;
+            entry.claimedAt = now;
+        });
+        this.save(entries);
+        return claimed;
+    }
+
+    /**
+     * Let other windows send this window's check-ins, e.g. when the window closes
+     */
+    public release(): void {
+        const entries = this.getAll();
+        const owned = entries.filter(entry => entry.owner === this.owner);
+        if (owned.length > 0) {
+            owned.forEach(entry => {
+                entry.owner = undefined;
+                entry.claimedAt = undefined;
+            });
+            this.save(entries);
+        }
+    }
+
+    /**
+     * Remove an acknowledged check-in from the queue
+     * @returns true if the check-in was queued
+     */
+    public remove(id: string): boolean {
+        const entries = this.getAll();
+        const remaining = entries.filter(entry => entry.checkIn.id !== id);
+        if (remaining.length === entries.length) {
+            return false;
+        }
+        this.save(remaining);
+        return true;
+    }
+
+    /**
+     * Drop entries that have been waiting longer than the given age
+     * @param maxAgeMs Maximum age in milliseconds
+     * @returns the dropped entries
+     */
+    public pruneExpired(maxAgeMs: number): QueuedCheckIn[] {
+        const cutoff = Date.now() - maxAgeMs;
+        const entries = this.getAll();
+        const expired = entries.filter(entry => entry.queuedAt < cutoff);
+        if (expired.length > 0) {
+            this.save(entries.filter(entry => entry.queuedAt >= cutoff));
+        }
+        return expired;
+    }
+
+    private save(entries: QueuedCheckIn[]): void {
+        this.storage.update(this.storageKey, entries).then(undefined, error => {
+            Logger.getInstance().error('Error saving outbound check-in queue:', error);
+        });
+    }
+}
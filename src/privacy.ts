@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * What a check-in may reveal about work covered by a privacy rule
+ */
+export type PrivacyMode = 'exclude' | 'generic' | 'label';
+
+/**
+ * A rule from yna.privacy.workspaces
+ */
+export interface PrivacyRule {
+    path: string; // Folder the rule covers: absolute, starting with ~, or a workspace folder name
+    mode: PrivacyMode;
+    label?: string; // Tag shown instead of the real ones, for the label mode
+}
+
+// Tag used by the label mode when the rule doesn't name one
+const DEFAULT_LABEL = 'private';
+// Generic tag for anything not in the table below
+const DEFAULT_GENERIC_TAG = 'coding';
+
+// Stricter rules win when several apply
+const MODE_STRICTNESS: Record<PrivacyMode, number> = { generic: 1, label: 2, exclude: 3 };
+
+// Specific tags and the broad area they belong to
+const GENERIC_TAGS: Record<string, string> = {
+    'react': 'frontend', 'vue': 'frontend', 'svelte': 'frontend', 'sveltekit': 'frontend', 'angular': 'frontend',
+    'nextjs': 'frontend', 'nuxt': 'frontend', 'astro': 'frontend', 'solid': 'frontend', 'remix': 'frontend',
+    'gatsby': 'frontend', 'leptos': 'frontend', 'yew': 'frontend', 'elm': 'frontend',
+    'html': 'frontend', 'css': 'frontend', 'scss': 'frontend', 'less': 'frontend',
+    'javascript': 'web', 'typescript': 'web', 'nodejs': 'web',
+    'express': 'backend', 'fastify': 'backend', 'koa': 'backend', 'nestjs': 'backend',
+    'django': 'backend', 'fastapi': 'backend', 'flask': 'backend', 'rails': 'backend', 'sinatra': 'backend',
+    'hanami': 'backend', 'laravel': 'backend', 'symfony': 'backend', 'slim': 'backend', 'cakephp': 'backend',
+    'actix': 'backend', 'axum': 'backend', 'rocket': 'backend', 'gin': 'backend', 'echo': 'backend',
+    'fiber': 'backend', 'gorilla': 'backend',
+    'python': 'backend', 'ruby': 'backend', 'php': 'backend', 'golang': 'backend', 'java': 'backend',
+    'kotlin': 'backend', 'scala': 'backend', 'csharp': 'backend', 'fsharp': 'backend', 'dotnet': 'backend',
+    'elixir': 'backend', 'clojure': 'backend', 'haskell': 'backend',
+    'swift': 'mobile', 'ios': 'mobile', 'objc': 'mobile', 'android': 'mobile', 'flutter': 'mobile',
+    'dart': 'mobile', 'react-native': 'mobile', 'expo': 'mobile',
+    'electron': 'desktop', 'tauri': 'desktop',
+    'rust': 'systems', 'c': 'systems', 'cpp': 'systems', 'zig': 'systems', 'tokio': 'systems',
+    'pandas': 'data', 'pytorch': 'data', 'tensorflow': 'data', 'jupyter': 'data', 'r': 'data', 'streamlit': 'data',
+    'sql': 'database', 'database': 'database',
+    'terraform': 'devops', 'infrastructure': 'devops', 'docker': 'devops', 'kubernetes': 'devops', 'shell': 'devops',
+    'solidity': 'web3', 'web3': 'web3',
+    'bevy': 'games',
+    'markdown': 'docs',
+    'configuration': 'configuration', 'json': 'configuration'
+};
+
+// Generic tags stay as they are, so the rule can be applied again to tags it produced
+const KNOWN_GENERIC_TAGS = new Set([...Object.values(GENERIC_TAGS), DEFAULT_GENERIC_TAG]);
+
+/**
+ * Get the rules from yna.privacy.workspaces, skipping malformed ones
+ */
+export function getPrivacyRules(): PrivacyRule[] {
+    const configured = vscode.workspace.getConfiguration('yna.privacy').get<unknown[]>('workspaces', []);
+    if (!Array.isArray(configured)) {
+        return [];
+    }
+    return configured.filter((rule): rule is PrivacyRule => {
+        const candidate = rule as Partial<PrivacyRule>;
+        return typeof candidate === 'object' && candidate !== null
+            && typeof candidate.path === 'string' && candidate.path.trim().length > 0
+            && (candidate.mode === 'exclude' || candidate.mode === 'generic' || candidate.mode === 'label');
+    });
+}
+
+/**
+ * Get the rule that covers a file or folder; the most specific rule wins
+ * @param filePath Absolute path
+ */
+export function getPrivacyRule(filePath: string): PrivacyRule | undefined {
+    let match: PrivacyRule | undefined;
+    let matchLength = -1;
+    getPrivacyRules().forEach(rule => {
+        const folder = resolveRulePath(rule.path);
+        if (folder && isWithin(folder, filePath) && folder.length > matchLength) {
+            match = rule;
+            matchLength = folder.length;
+        }
+    });
+    return match;
+}
+
+/**
+ * Get the rule for the work being checked in: the active file's, or when no file
+ * is active, the strictest rule among the workspace folders
+ */
+export function getActivePrivacyRule(): PrivacyRule | undefined {
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    if (activeDocument && activeDocument.uri.scheme === 'file') {
+        const folder = vscode.workspace.getWorkspaceFolder(activeDocument.uri);
+        return strictest([getPrivacyRule(activeDocument.uri.fsPath), folder && getPrivacyRule(folder.uri.fsPath)]);
+    }
+    return strictest((vscode.workspace.workspaceFolders ?? []).map(folder => getPrivacyRule(folder.uri.fsPath)));
+}
+
+/**
+ * Apply a rule to tags. Applying it again to the result changes nothing.
+ * @returns the tags a check-in may reveal
+ */
+export function applyPrivacyRule(tags: string[], rule: PrivacyRule | undefined): string[] {
+    if (!rule) {
+        return tags;
+    }
+    switch (rule.mode) {
+        case 'exclude':
+            return [];
+        case 'label':
+            return [getLabel(rule)];
+        case 'generic':
+            return [...new Set(tags.map(tag => GENERIC_TAGS[tag] ?? (KNOWN_GENERIC_TAGS.has(tag) ? tag : DEFAULT_GENERIC_TAG)))];
+    }
+}
+
+/**
+ * Explain what a rule does to check-ins, for the check-in UI
+ */
+export function describePrivacyRule(rule: PrivacyRule): string {
+    switch (rule.mode) {
+        case 'exclude':
+            return 'A privacy rule hides the tags of this workspace';
+        case 'label':
+            return `A privacy rule shows this workspace as "${getLabel(rule)}"`;
+        case 'generic':
+            return 'A privacy rule only shares generic tags for this workspace';
+    }
+}
+
+function getLabel(rule: PrivacyRule): string {
+    const label = typeof rule.label === 'string' ? rule.label.trim().toLowerCase().replace(/\s+/g, '-') : '';
+    return label || DEFAULT_LABEL;
+}
+
+function strictest(rules: (PrivacyRule | undefined)[]): PrivacyRule | undefined {
+    return rules.reduce<PrivacyRule | undefined>((strictestRule, rule) => {
+        return rule && (!strictestRule || MODE_STRICTNESS[rule.mode] > MODE_STRICTNESS[strictestRule.mode]) ? rule : strictestRule;
+    }, undefined);
+}
+
+/**
+ * Turn a rule's path into an absolute folder path
+ * @returns the folder, or undefined if a folder name matches no workspace folder
+ */
+function resolveRulePath(rulePath: string): string | undefined {
+    const trimmed = rulePath.trim();
+    if (trimmed === '~' || trimmed.startsWith('~/') || trimmed.startsWith('~\\')) {
+        return path.join(os.homedir(), trimmed.slice(1));
+    }
+    if (path.isAbsolute(trimmed)) {
+        return path.resolve(trimmed);
+    }
+    return vscode.workspace.workspaceFolders?.find(folder => folder.name === trimmed)?.uri.fsPath;
+}
+
+function isWithin(folder: string, filePath: string): boolean {
+    const caseInsensitive = process.platform === 'win32' || process.platform === 'darwin';
+    const relative = caseInsensitive
+        ? path.relative(folder.toLowerCase(), filePath.toLowerCase())
+        : path.relative(folder, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -0,0 +1,207 @@
+/**
+ * Messages exchanged between the extension and a check-in server.
+ * This module has no VS Code dependency so servers can share it.
+ */
+
+// Version of the protocol described here. Clients that don't send hello speak version 1.
+export const PROTOCOL_VERSION = 2;
+
+// Optional protocol features, advertised in hello and confirmed in hello_ok
+export type Capability = 'history_framing' | 'history_delta' | 'checkin_ack' | 'session_signing' | 'server_config' | 'activity_context';
+
+// Everything this version of the protocol supports
+export const CAPABILITIES: Capability[] = ['history_framing', 'history_delta', 'checkin_ack', 'session_signing', 'server_config', 'activity_context'];
+
+// What kind of work a check-in was made during, sent with the activity_context capability
+export type ActivityContext = 'debugging' | 'testing' | 'building' | 'resolving-conflicts';
+
+export const ACTIVITY_CONTEXTS: ActivityContext[] = ['debugging', 'testing', 'building', 'resolving-conflicts'];
+
+/**
+ * Limits a server enforces, announced in the config message
+ */
+export interface ServerLimits {
+    maxMessageLength: number; // Characters allowed in a check-in message
+    cooldownSeconds: number; // Time between check-ins of the same user
+    maxTags: number; // Tags kept per check-in
+    historySize: number; // Check-ins the server keeps, and the view shows
+}
+
+// Used until the server sends its config, and for servers that never do
+export const DEFAULT_LIMITS: ServerLimits = {
+    maxMessageLength: 42,
+    cooldownSeconds: 10 * 60,
+    maxTags: 3,
+    historySize: 100
+};
+
+export interface CheckInMessage {
+    type: 'checkin';
+    id?: string; // Client-generated id, echoed back by the server
+    username: string;
+    tags: string[];
+    message: string;
+    timestamp: string;
+    avatarUrl?: string; // Optional GitHub avatar URL
+    snippet?: string; // Random code snippet when a language is detected
+    context?: ActivityContext[]; // Only sent to servers with the activity_context capability
+    signature?: string; // HMAC signature made with the per-connection session key
+    signatureTimestamp?: string; // Timestamp used in generating the signature
+    nonce?: string; // Session nonce the signature is bound to
+}
+
+export interface NewCheckInMessage {
+    type: 'new_checkin';
+    id?: string; // Id of the originating check-in, if the sender provided one
+    username: string;
+    tags: string[];
+    message: string;
+    timestamp: string;
+    avatarUrl?: string; // Optional GitHub avatar URL
+    snippet?: string; // Random code snippet when a language is detected
+    context?: string[]; // Activity context; may hold values from newer clients
+    seq?: number; // Server-assigned sequence id, used as the resync cursor when present
+    pending?: boolean; // Local only: queued while offline and not yet acknowledged by the server
+}
+
+// Asks the server for the current online users count
+export interface OnlineUsersRequestMessage {
+    type: 'online_users_request';
+}
+
+export interface OnlineUsersMessage {
+    type: 'online_users';
+    count: number;
+}
+
+export interface ErrorMessage {
+    type: 'error';
+    message: string;
+}
+
+// Asks the server for the check-in backlog, optionally only what was missed since a cursor
+export interface HistoryRequestMessage {
+    type: 'history_request';
+    since?: string; // Timestamp of the newest check-in we have seen
+    sinceSeq?: number; // Sequence id of the newest check-in we have seen, preferred over since
+}
+
+// First frame on a new connection, advertises what the client understands
+export interface HelloMessage {
+    type: 'hello';
+    protocolVersion: number;
+    capabilities: string[]; // Unknown capabilities must be ignored, they may come from newer clients
+    client?: string; // Client name and version, for the server's logs
+}
+
+// Sent by the server when it can talk to the client, possibly with fewer features
+export interface HelloOkMessage {
+    type: 'hello_ok';
+    protocolVersion: number; // Version both sides will speak, at most the client's
+    capabilities: string[]; // Capabilities the server enabled for this connection
+    latestProtocolVersion?: number; // Newest version the server speaks, higher than the client's when an update is available
+}
+
+// Sent by the server when it can't talk to the client; the connection is closed afterwards
+export interface HelloRejectedMessage {
+    type: 'hello_rejected';
+    reason: 'client_outdated' | 'unsupported';
+    message?: string; // Optional human readable detail
+    minProtocolVersion?: number; // Oldest protocol version the server still accepts
+}
+
+// Sent by servers with the server_config capability right after hello_ok; omitted limits keep their defaults
+export interface ConfigMessage extends Partial<ServerLimits> {
+    type: 'config';
+}
+
+// Sent after hello, authenticates the connection with the GitHub access token
+export interface AuthMessage {
+    type: 'auth';
+    token: string;
+}
+
+// Sent by the server when the auth frame was accepted
+export interface AuthOkMessage {
+    type: 'auth_ok';
+    username?: string; // GitHub login the token belongs to
+}
+
+// Why the server refused the auth frame
+export type AuthFailureReason = 'missing_token' | 'invalid_token' | 'expired_token' | 'insufficient_scope' | 'forbidden';
+
+// Sent by the server when the auth frame was refused; the connection is closed afterwards
+export interface AuthFailedMessage {
+    type: 'auth_failed';
+    reason: AuthFailureReason;
+    message?: string; // Optional human readable detail
+}
+
+// Sent by the server during the handshake; check-ins on this connection are signed with it
+export interface SessionMessage {
+    type: 'session';
+    nonce: string; // Unique per connection, bound into every signature
+    key: string; // Per-connection HMAC key, never persisted by the client
+}
+
+// Sent by the server once it has accepted a check-in
+export interface CheckInAckMessage {
+    type: 'checkin_ack';
+    id: string; // Id of the acknowledged check-in
+    nextAllowedAt: string; // When the user may check in again, per the server
+}
+
+// Sent by the server when it refuses a check-in, e.g. because of the cooldown
+export interface CheckInRejectedMessage {
+    type: 'checkin_rejected';
+    id: string; // Id of the rejected check-in
+    reason: string; // Human readable reason
+    nextAllowedAt?: string; // When the user may check in again, if the rejection was cooldown related
+}
+
+// Sent by the server before it starts replaying the check-in backlog
+export interface HistoryStartMessage {
+    type: 'history_start';
+    count?: number; // Total number of check-ins that will follow, if the server knows it
+    delta?: boolean; // True when only check-ins newer than the requested cursor follow
+}
+
+// A chunk of the check-in backlog
+export interface HistoryBatchMessage {
+    type: 'history_batch';
+    checkIns: NewCheckInMessage[];
+}
+
+// Sent by the server once the whole backlog has been delivered
+export interface HistoryEndMessage {
+    type: 'history_end';
+}
+
+export type Message = CheckInMessage | NewCheckInMessage | OnlineUsersRequestMessage | OnlineUsersMessage | ErrorMessage
+    | HistoryRequestMessage | HistoryStartMessage | HistoryBatchMessage | HistoryEndMessage
+    | CheckInAckMessage | CheckInRejectedMessage | SessionMessage
+    | HelloMessage | HelloOkMessage | HelloRejectedMessage | ConfigMessage
+    | AuthMessage | AuthOkMessage | AuthFailedMessage;
+
+/**
+ * Build the string a check-in signature is computed over: the check-in
+ * content without authentication data, the signature timestamp and the
+ * session nonce. Client and server must produce exactly the same string.
+ */
+export function getSigningPayload(message: CheckInMessage, signatureTimestamp: string, nonce: string): string {
+    // Create a clean version of the message without authentication data
+    const cleanMessage = {
+        type: message.type,
+        id: message.id,
+        username: message.username,
+        tags: message.tags,
+        message: message.message,
+        timestamp: message.timestamp,
+        avatarUrl: message.avatarUrl,
+        snippet: message.snippet,
+        // Left out of the JSON when absent, so signatures match servers that predate it
+        context: message.context
+    };
+    
+    return JSON.stringify(cleanMessage) + signatureTimestamp + nonce;
+}
@@ -0,0 +1,207 @@
+import { Message, AuthFailureReason } from './protocol';
+
+/**
+ * Runtime checks for frames received over the check-in protocol.
+ * Like protocol.ts this module has no VS Code dependency so servers can share it.
+ */
+
+// Outcome of parsing a frame: the message, or why it was refused
+export type ParseResult = { message: Message } | { error: string };
+
+type Fields = Record<string, unknown>;
+
+// Returns a description of the first problem found, or undefined if the fields are fine
+type Validator = (fields: Fields) => string | undefined;
+
+const AUTH_FAILURE_REASONS: AuthFailureReason[] = ['missing_token', 'invalid_token', 'expired_token', 'insufficient_scope', 'forbidden'];
+
+function requireString(fields: Fields, name: string): string | undefined {
+    return typeof fields[name] === 'string' ? undefined : `${name} must be a string`;
+}
+
+function optionalString(fields: Fields, name: string): string | undefined {
+    return fields[name] === undefined ? undefined : requireString(fields, name);
+}
+
+function requireNumber(fields: Fields, name: string): string | undefined {
+    const value = fields[name];
+    return typeof value === 'number' && isFinite(value) ? undefined : `${name} must be a number`;
+}
+
+function optionalNumber(fields: Fields, name: string): string | undefined {
+    return fields[name] === undefined ? undefined : requireNumber(fields, name);
+}
+
+function optionalPositiveInteger(fields: Fields, name: string): string | undefined {
+    const value = fields[name];
+    return value === undefined || (typeof value === 'number' && Number.isInteger(value) && value > 0)
+        ? undefined
+        : `${name} must be a positive integer`;
+}
+
+function optionalBoolean(fields: Fields, name: string): string | undefined {
+    return fields[name] === undefined || typeof fields[name] === 'boolean' ? undefined : `${name} must be a boolean`;
+}
+
+function requireStringArray(fields: Fields, name: string): string | undefined {
+    const value = fields[name];
+    return Array.isArray(value) && value.every(item => typeof item === 'string') ? undefined : `${name} must be an array of strings`;
+}
+
+function optionalStringArray(fields: Fields, name: string): string | undefined {
+    return fields[name] === undefined ? undefined : requireStringArray(fields, name);
+}
+
+function requireTimestamp(fields: Fields, name: string): string | undefined {
+    const value = fields[name];
+    return typeof value === 'string' && !isNaN(Date.parse(value)) ? undefined : `${name} must be an ISO timestamp`;
+}
+
+function optionalTimestamp(fields: Fields, name: string): string | undefined {
+    return fields[name] === undefined ? undefined : requireTimestamp(fields, name);
+}
+
+/**
+ * Run checks in order and report the first failure
+ */
+function firstProblem(...problems: (string | undefined)[]): string | undefined {
+    return problems.find(problem => problem !== undefined);
+}
+
+// Fields shared by check-ins sent by clients and check-ins broadcast by servers
+function validateCheckInFields(fields: Fields): string | undefined {
+    return firstProblem(
+        optionalString(fields, 'id'),
+        requireString(fields, 'username'),
+        requireStringArray(fields, 'tags'),
+        requireString(fields, 'message'),
+        requireTimestamp(fields, 'timestamp'),
+        optionalString(fields, 'avatarUrl'),
+        optionalString(fields, 'snippet'),
+        optionalStringArray(fields, 'context')
+    );
+}
+
+function validateNewCheckIn(fields: Fields): string | undefined {
+    return firstProblem(
+        validateCheckInFields(fields),
+        optionalNumber(fields, 'seq'),
+        optionalBoolean(fields, 'pending')
+    );
+}
+
+const validators: Record<Message['type'], Validator> = {
+    'checkin': fields => firstProblem(
+        validateCheckInFields(fields),
+        optionalString(fields, 'signature'),
+        optionalString(fields, 'signatureTimestamp'),
+        optionalString(fields, 'nonce')
+    ),
+    'new_checkin': validateNewCheckIn,
+    'online_users_request': () => undefined,
+    'online_users': fields => requireNumber(fields, 'count'),
+    'error': fields => requireString(fields, 'message'),
+    'history_request': fields => firstProblem(
+        optionalTimestamp(fields, 'since'),
+        optionalNumber(fields, 'sinceSeq')
+    ),
+    'history_start': fields => firstProblem(
+        optionalNumber(fields, 'count'),
+        optionalBoolean(fields, 'delta')
+    ),
+    'history_batch': fields => {
+        const checkIns = fields.checkIns;
+        if (!Array.isArray(checkIns)) {
+            return 'checkIns must be an array';
+        }
+        for (let i = 0; i < checkIns.length; i++) {
+            const checkIn = checkIns[i];
+            const problem = typeof checkIn === 'object' && checkIn !== null && (checkIn as Fields).type === 'new_checkin'
+                ? validateNewCheckIn(checkIn as Fields)
+                : 'must be a new_checkin message';
+            if (problem) {
+                return `checkIns[${i}]: ${problem}`;
+            }
+        }
+        return undefined;
+    },
+    'history_end': () => undefined,
+    'checkin_ack': fields => firstProblem(
+        requireString(fields, 'id'),
+        requireTimestamp(fields, 'nextAllowedAt')
+    ),
+    'checkin_rejected': fields => firstProblem(
+        requireString(fields, 'id'),
+        requireString(fields, 'reason'),
+        optionalTimestamp(fields, 'nextAllowedAt')
+    ),
+    'session': fields => firstProblem(
+        requireString(fields, 'nonce'),
+        requireString(fields, 'key')
+    ),
+    'hello': fields => firstProblem(
+        requireNumber(fields, 'protocolVersion'),
+        requireStringArray(fields, 'capabilities'),
+        optionalString(fields, 'client')
+    ),
+    'hello_ok': fields => firstProblem(
+        requireNumber(fields, 'protocolVersion'),
+        requireStringArray(fields, 'capabilities'),
+        optionalNumber(fields, 'latestProtocolVersion')
+    ),
+    'hello_rejected': fields => firstProblem(
+        fields.reason === 'client_outdated' || fields.reason === 'unsupported' ? undefined : 'reason is not a known rejection reason',
+        optionalString(fields, 'message'),
+        optionalNumber(fields, 'minProtocolVersion')
+    ),
+    'config': fields => firstProblem(
+        optionalPositiveInteger(fields, 'maxMessageLength'),
+        optionalPositiveInteger(fields, 'cooldownSeconds'),
+        optionalPositiveInteger(fields, 'maxTags'),
+        optionalPositiveInteger(fields, 'historySize')
+    ),
+    'auth': fields => requireString(fields, 'token'),
+    'auth_ok': fields => optionalString(fields, 'username'),
+    'auth_failed': fields => firstProblem(
+        AUTH_FAILURE_REASONS.includes(fields.reason as AuthFailureReason) ? undefined : 'reason is not a known failure reason',
+        optionalString(fields, 'message')
+    )
+};
+
+/**
+ * Check that a decoded value is a well-formed protocol message.
+ * Extra fields are allowed so newer peers can add optional data.
+ * @returns a description of the problem, or undefined if the message is valid
+ */
+export function validateMessage(value: unknown): string | undefined {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return 'Frame is not a JSON object';
+    }
+
+    const fields = value as Fields;
+    if (typeof fields.type !== 'string') {
+        return 'Frame has no type';
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(validators, fields.type)) {
+        return `Unknown message type "${fields.type}"`;
+    }
+
+    const problem = validators[fields.type as Message['type']](fields);
+    return problem ? `Invalid ${fields.type} message: ${problem}` : undefined;
+}
+
+/**
+ * Decode and validate a text frame
+ */
+export function parseMessage(data: string): ParseResult {
+    let value: unknown;
+    try {
+        value = JSON.parse(data);
+    } catch {
+        return { error: 'Frame is not valid JSON' };
+    }
+
+    const problem = validateMessage(value);
+    return problem ? { error: problem } : { message: value as Message };
+}
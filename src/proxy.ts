@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import { HttpsProxyAgent, HttpsProxyAgentOptions } from 'https-proxy-agent';
+import { Logger } from './logger';
+
+// TLS errors that mean a certificate authority is missing, typically a proxy inspecting traffic
+const UNTRUSTED_CERTIFICATE_CODES = [
+    'SELF_SIGNED_CERT_IN_CHAIN',
+    'DEPTH_ZERO_SELF_SIGNED_CERT',
+    'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'UNABLE_TO_VERIFY_LEAF_SIGNATURE'
+];
+
+// Network errors raised while reaching the proxy itself
+const PROXY_UNREACHABLE_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ETIMEDOUT'];
+
+/**
+ * Tunnels through the proxy and verifies the destination with our certificate authorities.
+ * The stock agent takes TLS options for the destination from the request, which fetch can't set.
+ */
+class TrustingProxyAgent extends HttpsProxyAgent<string> {
+    constructor(proxyUrl: string, private readonly destinationTls: tls.ConnectionOptions, options: HttpsProxyAgentOptions<string>) {
+        super(proxyUrl, options);
+    }
+
+    async connect(req: http.ClientRequest, options: Parameters<HttpsProxyAgent<string>['connect']>[1]): Promise<net.Socket> {
+        return super.connect(req, { ...options, ...this.destinationTls });
+    }
+}
+
+/**
+ * Get the proxy to use for a URL, following VS Code's http settings and then the
+ * HTTPS_PROXY / HTTP_PROXY environment variables
+ * @returns the proxy URL, or undefined to connect directly
+ */
+export function getProxyUrl(url: string): string | undefined {
+    const config = vscode.workspace.getConfiguration('http');
+    if (config.get<string>('proxySupport') === 'off') {
+        return undefined;
+    }
+
+    const target = new URL(url);
+    if (isProxyBypassed(target)) {
+        return undefined;
+    }
+
+    const secure = target.protocol === 'https:' || target.protocol === 'wss:';
+    const proxy = config.get<string>('proxy')
+        || (secure ? process.env.HTTPS_PROXY || process.env.https_proxy : undefined)
+        || process.env.HTTP_PROXY
+        || process.env.http_proxy;
+    if (!proxy) {
+        return undefined;
+    }
+
+    // VS Code accepts proxy settings without a scheme
+    return /^[a-z]+:\/\//i.test(proxy) ? proxy : `http://${proxy}`;
+}
+
+/**
+ * Check a host against http.noProxy and the NO_PROXY environment variable.
+ * Entries are host names, optionally with a port; a leading dot or "*." matches subdomains only.
+ */
+function isProxyBypassed(target: URL): boolean {
+    const entries = [
+        ...vscode.workspace.getConfiguration('http').get<string[]>('noProxy', []),
+        ...(process.env.NO_PROXY || process.env.no_proxy || '').split(/[\s,]+/)
+    ].map(entry => entry.trim().toLowerCase()).filter(entry => entry.length > 0);
+
+    const hostname = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    const secure = target.protocol === 'https:' || target.protocol === 'wss:';
+    const port = target.port || (secure ? '443' : '80');
+
+    return entries.some(entry => {
+        if (entry === '*') {
+            return true;
+        }
+
+        const [, entryHost, entryPort] = /^(.*?)(?::(\d+))?$/.exec(entry)!;
+        if (entryPort && entryPort !== port) {
+            return false;
+        }
+        if (entryHost.startsWith('*.') || entryHost.startsWith('.')) {
+            return hostname.endsWith(entryHost.replace(/^\*/, ''));
+        }
+        return hostname === entryHost || hostname.endsWith(`.${entryHost}`);
+    });
+}
+
+/**
+ * TLS options from http.proxyStrictSSL and the certificate authorities in yna.network.caCertificates
+ */
+function getTlsOptions(): tls.ConnectionOptions {
+    const rejectUnauthorized = vscode.workspace.getConfiguration('http').get<boolean>('proxyStrictSSL', true);
+    const caFiles = vscode.workspace.getConfiguration('yna.network').get<string[]>('caCertificates', []);
+
+    const extraCertificates: string[] = [];
+    caFiles.forEach(file => {
+        try {
+            extraCertificates.push(fs.readFileSync(file, 'utf8'));
+        } catch (error) {
+            Logger.getInstance().error(`Could not read certificate authority ${file}:`, error);
+        }
+    });
+
+    // Extra authorities are trusted in addition to the usual ones, not instead of them
+    return extraCertificates.length > 0
+        ? { rejectUnauthorized, ca: [...tls.rootCertificates, ...extraCertificates] }
+        : { rejectUnauthorized };
+}
+
+/**
+ * Get the agent that connects to a URL the way the user's network requires:
+ * through the proxy, with proxy authentication and extra certificate authorities
+ * @param url http(s) or ws(s) URL to connect to
+ * @returns the agent, or undefined if the default one will do
+ */
+export function getProxyAgent(url: string): http.Agent | undefined {
+    const tlsOptions = getTlsOptions();
+    const proxyUrl = getProxyUrl(url);
+
+    if (proxyUrl) {
+        const authorization = vscode.workspace.getConfiguration('http').get<string | null>('proxyAuthorization', null);
+        return new TrustingProxyAgent(proxyUrl, tlsOptions, {
+            ...tlsOptions, // For a proxy that is itself reached over TLS
+            headers: authorization ? { 'Proxy-Authorization': authorization } : {}
+        });
+    }
+
+    const secure = url.startsWith('https:') || url.startsWith('wss:');
+    if (secure && (tlsOptions.ca || tlsOptions.rejectUnauthorized === false)) {
+        return new https.Agent(tlsOptions);
+    }
+    return undefined;
+}
+
+/**
+ * Strip credentials from a proxy URL so it can be shown and logged
+ */
+export function describeProxy(proxyUrl: string): string {
+    try {
+        const proxy = new URL(proxyUrl);
+        return `${proxy.protocol}//${proxy.host}`;
+    } catch {
+        return 'an invalid proxy URL';
+    }
+}
+
+/**
+ * Explain a response status that came from the proxy rather than the destination
+ * @returns the explanation, or undefined if the status doesn't point at the proxy
+ */
+export function describeProxyStatus(status: number): string | undefined {
+    return status === 407
+        ? 'The proxy requires authentication (407). Set http.proxyAuthorization, or put the credentials in the proxy URL.'
+        : undefined;
+}
+
+/**
+ * Explain a connection failure caused by the proxy or by an untrusted certificate
+ * @param url URL that was being connected to
+ * @param error Error raised by the connection
+ * @returns the explanation, or undefined if the failure doesn't look network related
+ */
+export function describeProxyFailure(url: string, error: Error): string | undefined {
+    // ws reports the proxy's answer to CONNECT like a failed upgrade
+    const status = /Unexpected server response: (\d+)/.exec(error.message);
+    if (status) {
+        return describeProxyStatus(Number(status[1]));
+    }
+
+    const code = (error as NodeJS.ErrnoException).code ?? '';
+    if (UNTRUSTED_CERTIFICATE_CODES.includes(code)) {
+        return `The certificate of ${new URL(url).host} is not trusted (${code}). If a proxy inspects your traffic, add its certificate authority to yna.network.caCertificates.`;
+    }
+
+    const proxyUrl = getProxyUrl(url);
+    if (proxyUrl && PROXY_UNREACHABLE_CODES.includes(code)) {
+        return `Could not reach the proxy at ${describeProxy(proxyUrl)} (${code}). Check http.proxy and the HTTPS_PROXY environment variable.`;
+    }
+    return undefined;
+}
@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+
+// Where the scheduler stands between connection attempts
+export type ReconnectState =
+    | { status: 'idle' } // Connected, or not trying to connect
+    | { status: 'scheduled', attempt: number, maxAttempts: number, retryAt: number } // Waiting to make attempt number `attempt`
+    | { status: 'connecting', attempt: number }
+    | { status: 'suspended', attempt: number } // Waiting for the window to be focused again
+    | { status: 'paused', attempts: number }; // Gave up after too many attempts, waiting for the user
+
+// First backoff ceiling; it doubles with every failed attempt
+const BASE_DELAY_MS = 2000;
+// Stop retrying after the window has been unfocused this long
+const SUSPEND_WHEN_UNFOCUSED_MS = 5 * 60 * 1000;
+
+/**
+ * Decides when to reconnect after a connection is lost.
+ * Delays use exponential backoff with full jitter, capped by yna.reconnect.maxDelaySeconds.
+ * After yna.reconnect.maxAttempts failures it pauses until retryNow() is called.
+ * Only one attempt is ever pending or in flight.
+ */
+export class ReconnectScheduler implements vscode.Disposable {
+    private state: ReconnectState = { status: 'idle' };
+    private attempts = 0; // Failed attempts since the last successful connection
+    private retryTimer: NodeJS.Timeout | null = null;
+    private suspendTimer: NodeJS.Timeout | null = null;
+    private windowFocused = vscode.window.state.focused;
+    private windowStateListener: vscode.Disposable;
+    private _onStateChanged = new vscode.EventEmitter<ReconnectState>();
+
+    // Event that fires whenever the reconnect state changes
+    public readonly onStateChanged = this._onStateChanged.event;
+
+    /**
+     * @param attemptConnect Starts a connection attempt; the caller reports back with connected() or failed()
+     */
+    constructor(private readonly attemptConnect: () => void) {
+        this.windowStateListener = vscode.window.onDidChangeWindowState(windowState => {
+            this.handleFocusChange(windowState.focused);
+        });
+        if (!this.windowFocused) {
+            this.startSuspendTimer();
+        }
+    }
+
+    public getState(): ReconnectState {
+        return this.state;
+    }
+
+    /**
+     * Report a successful connection; the backoff starts over
+     */
+    public connected() {
+        this.clearRetryTimer();
+        this.attempts = 0;
+        this.setState({ status: 'idle' });
+    }
+
+    /**
+     * Report a lost connection or a failed attempt, and schedule the next one
+     */
+    public failed() {
+        if (this.retryTimer || this.state.status === 'suspended' || this.state.status === 'paused') {
+            // Already waiting, don't stack another attempt
+            return;
+        }
+
+        const { maxAttempts, maxDelayMs } = this.getSettings();
+        if (maxAttempts > 0 && this.attempts >= maxAttempts) {
+            this.setState({ status: 'paused', attempts: this.attempts });
+            return;
+        }
+
+        if (this.isSuspended()) {
+            this.setState({ status: 'suspended', attempt: this.attempts + 1 });
+            return;
+        }
+
+        // Full jitter: anywhere between zero and the exponential ceiling
+        const ceiling = Math.min(maxDelayMs, BASE_DELAY_MS * Math.pow(2, this.attempts));
+        const delayMs = Math.round(Math.random() * ceiling);
+
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.attempt();
+        }, delayMs);
+        this.setState({ status: 'scheduled', attempt: this.attempts + 1, maxAttempts, retryAt: Date.now() + delayMs });
+    }
+
+    /**
+     * Try again right away with a fresh backoff, e.g. when the user asks to retry
+     */
+    public retryNow() {
+        if (this.state.status === 'connecting') {
+            return;
+        }
+        this.clearRetryTimer();
+        this.attempts = 0;
+        this.attempt();
+    }
+
+    /**
+     * Stop reconnecting, e.g. after the server refused our credentials
+     */
+    public cancel() {
+        this.clearRetryTimer();
+        this.attempts = 0;
+        this.setState({ status: 'idle' });
+    }
+
+    public dispose() {
+        this.clearRetryTimer();
+        if (this.suspendTimer) {
+            clearTimeout(this.suspendTimer);
+            this.suspendTimer = null;
+        }
+        this.windowStateListener.dispose();
+        this._onStateChanged.dispose();
+    }
+
+    private attempt() {
+        this.attempts++;
+        this.setState({ status: 'connecting', attempt: this.attempts });
+        this.attemptConnect();
+    }
+
+    private handleFocusChange(focused: boolean) {
+        if (focused === this.windowFocused) {
+            return;
+        }
+        this.windowFocused = focused;
+
+        if (!focused) {
+            this.startSuspendTimer();
+            return;
+        }
+
+        if (this.suspendTimer) {
+            clearTimeout(this.suspendTimer);
+            this.suspendTimer = null;
+        }
+
+        // Back at the keyboard: don't make the user wait for the backoff
+        if (this.state.status === 'scheduled' || this.state.status === 'suspended') {
+            this.clearRetryTimer();
+            this.attempt();
+        }
+    }
+
+    private startSuspendTimer() {
+        if (this.suspendTimer) {
+            return;
+        }
+        this.suspendTimer = setTimeout(() => {
+            this.suspendTimer = null;
+
+            // Stop the pending attempt; focusing the window resumes it
+            if (this.state.status === 'scheduled') {
+                this.clearRetryTimer();
+                this.setState({ status: 'suspended', attempt: this.state.attempt });
+            }
+        }, SUSPEND_WHEN_UNFOCUSED_MS);
+    }
+
+    /**
+     * Whether the window has been unfocused long enough to stop retrying
+     */
+    private isSuspended(): boolean {
+        return !this.windowFocused && this.suspendTimer === null;
+    }
+
+    private getSettings(): { maxAttempts: number, maxDelayMs: number } {
+        const config = vscode.workspace.getConfiguration('yna.reconnect');
+        return {
+            maxAttempts: config.get<number>('maxAttempts', 10),
+            maxDelayMs: config.get<number>('maxDelaySeconds', 30) * 1000
+        };
+    }
+
+    private clearRetryTimer() {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private setState(state: ReconnectState) {
+        this.state = state;
+        this._onStateChanged.fire(state);
+    }
+}
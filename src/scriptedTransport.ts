@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { Transport } from './transport';
+import { Message, NewCheckInMessage, ServerLimits, PROTOCOL_VERSION, CAPABILITIES } from './protocol';
+
+/**
+ * A check-in in a demo scenario
+ */
+export interface ScenarioCheckIn {
+    username: string;
+    tags: string[];
+    message: string;
+    avatarUrl?: string;
+    snippet?: string;
+    context?: string[]; // Activity context, e.g. debugging
+    minutesAgo?: number; // History only: how long before the start of the demo it was made
+}
+
+/**
+ * Something that happens while the demo runs
+ */
+export interface ScenarioEvent {
+    afterSeconds: number; // Delay from the end of the history replay
+    checkIn?: ScenarioCheckIn;
+    onlineUsers?: number;
+}
+
+/**
+ * Contents of a demo scenario file
+ */
+export interface Scenario {
+    onlineUsers: number; // Online count reported on connect
+    cooldownMinutes?: number; // Cooldown applied to the user's own check-ins, 10 minutes by default
+    limits?: Partial<ServerLimits>; // Other limits announced to the client, the defaults otherwise
+    history: ScenarioCheckIn[]; // Replayed as the backlog
+    events: ScenarioEvent[]; // Played in order after the backlog
+    loop?: boolean; // Start the events over once the last one has played
+}
+
+// Simulated round-trip time, so replies arrive like they would over the network
+const SCRIPTED_LATENCY_MS = 40;
+
+/**
+ * In-process transport that plays a scenario file instead of talking to a server.
+ * It answers the handshake, history requests, pings and check-ins the way a
+ * server would, so the client runs its normal code paths. Nothing leaves the machine.
+ */
+export class ScriptedTransport implements Transport {
+    private _onOpen = new vscode.EventEmitter<void>();
+    private _onMessage = new vscode.EventEmitter<string>();
+    private _onClose = new vscode.EventEmitter<{ code: number, reason: string }>();
+    private _onError = new vscode.EventEmitter<Error>();
+    private _onPong = new vscode.EventEmitter<void>();
+    private state: 'connecting' | 'open' | 'closed' = 'connecting';
+    private scenario: Scenario | null = null;
+    private replyTimers = new Set<NodeJS.Timeout>(); // Replies and pongs in flight
+    private eventTimers = new Set<NodeJS.Timeout>(); // Scenario events still to play
+    private nextSeq = 1;
+    private onlineUsers = 0;
+
+    public readonly onOpen = this._onOpen.event;
+    public readonly onMessage = this._onMessage.event;
+    public readonly onClose = this._onClose.event;
+    public readonly onError = this._onError.event;
+    public readonly onPong = this._onPong.event;
+
+    /**
+     * @param scenarioUri JSON scenario file to play
+     */
+    constructor(scenarioUri: vscode.Uri) {
+        this.loadScenario(scenarioUri).then(scenario => {
+            if (this.state !== 'connecting') {
+                return;
+            }
+            this.scenario = scenario;
+            this.onlineUsers = scenario.onlineUsers;
+            this.state = 'open';
+            this._onOpen.fire();
+        }, error => {
+            this._onError.fire(error instanceof Error ? error : new Error(String(error)));
+            this.closeWith(1011, 'Could not load the demo scenario');
+        });
+    }
+
+    private async loadScenario(uri: vscode.Uri): Promise<Scenario> {
+        const data = await vscode.workspace.fs.readFile(uri);
+        const scenario = JSON.parse(Buffer.from(data).toString('utf8')) as Scenario;
+        if (!Array.isArray(scenario.history) || !Array.isArray(scenario.events)) {
+            throw new Error(`${uri.fsPath} is not a valid demo scenario`);
+        }
+        return scenario;
+    }
+
+    public isConnecting(): boolean {
+        return this.state === 'connecting';
+    }
+
+    public isOpen(): boolean {
+        return this.state === 'open';
+    }
+
+    /**
+     * Answer a frame sent by the client
+     */
+    public send(data: string) {
+        if (this.state !== 'open') {
+            throw new Error('Scripted transport is not open');
+        }
+
+        const message = JSON.parse(data) as Message;
+        switch (message.type) {
+            case 'hello': {
+                const capabilities = CAPABILITIES.filter(capability => message.capabilities.includes(capability));
+                this.reply({
+                    type: 'hello_ok',
+                    protocolVersion: Math.min(message.protocolVersion, PROTOCOL_VERSION),
+                    capabilities
+                });
+                if (capabilities.includes('server_config')) {
+                    this.reply({
+                        type: 'config',
+                        ...this.scenario?.limits,
+                        cooldownSeconds: this.getCooldownMinutes() * 60
+                    });
+                }
+                break;
+            }
+            case 'auth':
+                // Any token is fine, nothing is sent anywhere
+                this.reply({ type: 'auth_ok', username: 'demo' });
+                this.reply({
+                    type: 'session',
+                    nonce: crypto.randomBytes(16).toString('hex'),
+                    key: crypto.randomBytes(32).toString('hex')
+                });
+                this.reply({ type: 'online_users', count: this.onlineUsers });
+                break;
+            case 'history_request':
+                this.replayHistory();
+                break;
+            case 'online_users_request':
+                this.reply({ type: 'online_users', count: this.onlineUsers });
+                break;
+            case 'checkin': {
+                const id = message.id ?? crypto.randomUUID();
+                this.reply({
+                    type: 'checkin_ack',
+                    id,
+                    nextAllowedAt: new Date(Date.now() + this.getCooldownMinutes() * 60 * 1000).toISOString()
+                });
+                this.reply({
+                    type: 'new_checkin',
+                    id,
+                    username: message.username,
+                    tags: message.tags,
+                    message: message.message,
+                    timestamp: message.timestamp,
+                    avatarUrl: message.avatarUrl,
+                    snippet: message.snippet,
+                    context: message.context,
+                    seq: this.nextSeq++
+                });
+                break;
+            }
+        }
+    }
+
+    private getCooldownMinutes(): number {
+        return this.scenario?.cooldownMinutes ?? 10;
+    }
+
+    public ping() {
+        this.schedule(this.replyTimers, () => this._onPong.fire(), SCRIPTED_LATENCY_MS);
+    }
+
+    public close() {
+        this.closeWith(1000, '');
+    }
+
+    public terminate() {
+        this.closeWith(1006, '');
+    }
+
+    public dispose() {
+        this.clearTimers(this.replyTimers);
+        this.clearTimers(this.eventTimers);
+        this.state = 'closed';
+
+        this._onOpen.dispose();
+        this._onMessage.dispose();
+        this._onClose.dispose();
+        this._onError.dispose();
+        this._onPong.dispose();
+    }
+
+    /**
+     * Send the scenario history, then start playing its events.
+     * Every request restarts the events so a reconnect sees the demo from the beginning.
+     */
+    private replayHistory() {
+        const scenario = this.scenario!;
+        const now = Date.now();
+        const checkIns = scenario.history.map(checkIn => this.toNewCheckIn(checkIn, now - (checkIn.minutesAgo ?? 0) * 60 * 1000));
+
+        this.reply({ type: 'history_start', count: checkIns.length, delta: false });
+        this.reply({ type: 'history_batch', checkIns });
+        this.reply({ type: 'history_end' });
+
+        this.clearTimers(this.eventTimers);
+        this.playEvents();
+    }
+
+    private playEvents() {
+        const scenario = this.scenario!;
+        let lastDelayMs = 0;
+
+        scenario.events.forEach(event => {
+            const delayMs = event.afterSeconds * 1000;
+            lastDelayMs = Math.max(lastDelayMs, delayMs);
+
+            this.schedule(this.eventTimers, () => {
+                if (event.checkIn) {
+                    this.emit(this.toNewCheckIn(event.checkIn, Date.now()));
+                }
+                if (typeof event.onlineUsers === 'number') {
+                    this.onlineUsers = event.onlineUsers;
+                    this.emit({ type: 'online_users', count: this.onlineUsers });
+                }
+            }, delayMs);
+        });
+
+        if (scenario.loop && scenario.events.length > 0) {
+            // Wait a moment after the last event so the loop doesn't fire two events at once
+            this.schedule(this.eventTimers, () => this.playEvents(), lastDelayMs + 1000);
+        }
+    }
+
+    private toNewCheckIn(checkIn: ScenarioCheckIn, timestamp: number): NewCheckInMessage {
+        return {
+            type: 'new_checkin',
+            id: crypto.randomUUID(),
+            username: checkIn.username,
+            tags: checkIn.tags,
+            message: checkIn.message,
+            timestamp: new Date(timestamp).toISOString(),
+            avatarUrl: checkIn.avatarUrl,
+            snippet: checkIn.snippet,
+            context: checkIn.context,
+            seq: this.nextSeq++
+        };
+    }
+
+    /**
+     * Deliver a message after the simulated round-trip time
+     */
+    private reply(message: Message) {
+        this.schedule(this.replyTimers, () => this.emit(message), SCRIPTED_LATENCY_MS);
+    }
+
+    private emit(message: Message) {
+        if (this.state === 'open') {
+            this._onMessage.fire(JSON.stringify(message));
+        }
+    }
+
+    private schedule(timers: Set<NodeJS.Timeout>, callback: () => void, delayMs: number) {
+        const timer = setTimeout(() => {
+            timers.delete(timer);
+            callback();
+        }, delayMs);
+        timers.add(timer);
+    }
+
+    private clearTimers(timers: Set<NodeJS.Timeout>) {
+        timers.forEach(timer => clearTimeout(timer));
+        timers.clear();
+    }
+
+    private closeWith(code: number, reason: string) {
+        if (this.state === 'closed') {
+            return;
+        }
+        this.clearTimers(this.replyTimers);
+        this.clearTimers(this.eventTimers);
+        this.state = 'closed';
+        // Like a socket, close is reported asynchronously
+        setTimeout(() => this._onClose.fire({ code, reason }), 0);
+    }
+}
@@ -1,19 +1,32 @@
 import * as vscode from 'vscode';
-import { WebSocketClient } from './webSocketClient';
+import { WebSocketClient, NewCheckInMessage, getConnectionQuality, describeAuthFailure } from './webSocketClient';
 import fetch from 'node-fetch';
 import { FileHistoryTracker } from './fileHistoryTracker';
 import { getActiveFileTags } from './tagsUtils';
+import { TagChoices, TagSuggestion, parseCustomTag, sanitizeTags } from './tagChoices';
+import { getActivePrivacyRule, describePrivacyRule } from './privacy';
+import { Logger } from './logger';
+import { getProxyAgent, describeProxyStatus, describeProxyFailure } from './proxy';
+
+// Looked up to get the user's login
+const GITHUB_USER_URL = 'https://api.github.com/user';
+
+// Wait for editor switches to settle before refreshing the tag suggestions
+const TAG_REFRESH_DELAY_MS = 1000;
 
 /**
  * Interface for check-in data
  */
 export interface CheckInData {
+    id?: string;
     username: string;
     tags: string[];
     message: string;
     timestamp: string;
     avatarUrl?: string;
     snippet?: string;
+    context?: string[]; // What kind of work it was made during, e.g. debugging
+    pending?: boolean; // Queued while offline, not yet acknowledged by the server
 }
 
 /**
@@ -29,6 +42,10 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
     private onlineUsersCount = 0;
     private newCheckInsCount = 0; // Track new check-ins since last view
     private _onCheckInsCountChanged = new vscode.EventEmitter<number>();
+    private log = Logger.getInstance();
+    private tagChoices: TagChoices;
+    private tagSuggestions: TagSuggestion[] = []; // Last tags offered in the form
+    private tagRefreshTimer?: NodeJS.Timeout;
     
     // Event that fires when check-ins count changes
     public readonly onCheckInsCountChanged = this._onCheckInsCountChanged.event;
@@ -38,12 +55,15 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
         private webSocketClient: WebSocketClient,
         private readonly _context: vscode.ExtensionContext
     ) {
+        this.tagChoices = new TagChoices(this._context.workspaceState);
+        
         // Listen for connection status changes
         this.webSocketClient.onConnectionStatusChanged(connected => {
             if (this._view && this.webviewReady) {
                 this._view.webview.postMessage({
                     command: 'connectionStatus',
-                    connected
+                    connected,
+                    mode: this.webSocketClient.getMode()
                 });
             }
             
@@ -55,20 +75,31 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
 
         // Listen for new check-ins
         this.webSocketClient.onMessageReceived(message => {
-            const checkIn: CheckInData = {
-                username: message.username,
-                tags: message.tags,
-                message: message.message,
-                timestamp: message.timestamp,
-                avatarUrl: message.avatarUrl,
-                snippet: message.snippet
-            };
-            this.addCheckIn(checkIn);
+            this.addCheckIn(this.toCheckInData(message));
+        });
+        
+        // Clear the pending marker once the server has a queued check-in
+        this.webSocketClient.onCheckInAcknowledged(id => {
+            const checkIn = this.checkIns.find(c => c.id === id);
+            if (checkIn) {
+                checkIn.pending = false;
+                this.updateView();
+            }
+        });
+        
+        // Drop queued check-ins that expired before they could be sent
+        this.webSocketClient.onCheckInDiscarded(id => {
+            const remaining = this.checkIns.filter(c => c.id !== id);
+            if (remaining.length !== this.checkIns.length) {
+                this.checkIns = remaining;
+                this._onCheckInsCountChanged.fire(this.checkIns.length);
+                this.updateView();
+            }
         });
 
         // Listen for history received
-        this.webSocketClient.onHistoryReceived(() => {
-            this.updateView();
+        this.webSocketClient.onHistoryReceived(history => {
+            this.setHistory(history);
         });
         
         // Listen for online users count changes
@@ -81,6 +112,64 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
         this.webSocketClient.onCooldownChanged(remainingMs => {
             this.updateCooldownStatus(remainingMs);
         });
+        
+        // Start over when switching to another server
+        this.webSocketClient.onServerChanged(() => {
+            this.checkIns = [];
+            this.pendingCheckIns = [];
+            this.newCheckInsCount = 0;
+            this._onCheckInsCountChanged.fire(0);
+            this.setHistory(this.webSocketClient.getAllCheckIns());
+        });
+        
+        // Keep the character counter in line with the server's limit
+        this.webSocketClient.onLimitsChanged(limits => {
+            if (this._view && this.webviewReady) {
+                this._view.webview.postMessage({
+                    command: 'limits',
+                    maxMessageLength: limits.maxMessageLength
+                });
+            }
+            this.updateTagSuggestions();
+        });
+        
+        // Offer the tags of the file the user switched to
+        vscode.window.onDidChangeActiveTextEditor(() => {
+            clearTimeout(this.tagRefreshTimer);
+            this.tagRefreshTimer = setTimeout(() => this.updateTagSuggestions(), TAG_REFRESH_DELAY_MS);
+        });
+        
+        // Tag and privacy settings change what the form offers
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('yna.tags') || event.affectsConfiguration('yna.privacy')) {
+                this.updateTagSuggestions();
+            }
+        });
+        
+        // Explain why we are not connecting when the server refuses this version
+        this.webSocketClient.onUpdateSuggested(suggestion => {
+            if (suggestion.required && this._view && this.webviewReady) {
+                this._view.webview.postMessage({
+                    command: 'updateRequired',
+                    message: suggestion.message
+                });
+            }
+        });
+        
+        // Show the re-sign-in prompt when the server refuses our credentials
+        this.webSocketClient.onAuthFailed(reason => {
+            if (this._view && this.webviewReady) {
+                this._view.webview.postMessage({
+                    command: 'authFailed',
+                    message: describeAuthFailure(reason)
+                });
+            }
+        });
+        
+        // Listen for heartbeat round-trip measurements
+        this.webSocketClient.onLatencyChanged(latencyMs => {
+            this.updateConnectionQuality(latencyMs);
+        });
 
         // Every 2 seconds, retry sending any pending check-ins to the webview
         setInterval(() => {
@@ -122,6 +211,7 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                 
                 // Refresh authentication status when view becomes visible
                 this.checkAuthAndUpdateUI();
+                this.updateTagSuggestions();
             }
         });
 
@@ -137,7 +227,9 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             if (message.command === 'viewProfile') {
                 vscode.env.openExternal(vscode.Uri.parse(`https://github.com/${message.username}`));
             } else if (message.command === 'checkIn') {
-                this.handleCheckIn(message.message);
+                this.handleCheckIn(message.message, message.tags);
+            } else if (message.command === 'addTag') {
+                this.handleAddTag(message.text);
             } else if (message.command === 'logout') {
                 // Execute the logout command
                 vscode.commands.executeCommand('yna.logout');
@@ -147,12 +239,16 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             } else if (message.command === 'login') {
                 // Handle login request
                 this.handleLogin();
+            } else if (message.command === 'signInAgain') {
+                // The previous session was rejected, force a new one
+                vscode.commands.executeCommand('yna.signInAgain');
             } else if (message.command === 'ready') {
                 this.webviewReady = true;
                 this.readyMessageReceived = true;
                 
                 // Send authentication status to webview
                 this.checkAuthAndUpdateUI();
+                this.updateTagSuggestions();
                 
                 // If authenticated and we have existing check-ins, update the view immediately
                 this.getAuthenticatedGitHubUsername().then(username => {
@@ -173,6 +269,7 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                 
                 // Check authentication and update UI
                 this.checkAuthAndUpdateUI();
+                this.updateTagSuggestions();
                 
                 // If authenticated and we have existing check-ins, update the view
                 this.getAuthenticatedGitHubUsername().then(username => {
@@ -189,61 +286,96 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
         // Get any check-ins already received by the WebSocketClient if we're authenticated
         this.getAuthenticatedGitHubUsername().then(username => {
             if (username) {
-                const existingCheckIns = this.webSocketClient.getAllCheckIns();
-                
-                existingCheckIns.forEach(checkIn => {
-                    this.addCheckIn({
-                        username: checkIn.username,
-                        tags: checkIn.tags,
-                        message: checkIn.message,
-                        timestamp: checkIn.timestamp,
-                        avatarUrl: checkIn.avatarUrl,
-                        snippet: checkIn.snippet
-                    });
-                });
+                this.setHistory(this.webSocketClient.getAllCheckIns());
             }
         });
     }
 
+    /**
+     * Convert a check-in message from the client into panel data
+     */
+    private toCheckInData(message: NewCheckInMessage): CheckInData {
+        return {
+            id: message.id,
+            username: message.username,
+            tags: message.tags,
+            message: message.message,
+            timestamp: message.timestamp,
+            avatarUrl: message.avatarUrl,
+            snippet: message.snippet,
+            context: message.context,
+            pending: message.pending
+        };
+    }
+
+    /**
+     * Insert or update a check-in, keeping only the latest one per user
+     * @returns true if the stored check-ins changed
+     */
+    private upsertCheckIn(checkIn: CheckInData): boolean {
+        // Check if this user already has a check-in
+        const existingIndex = this.checkIns.findIndex(c => c.username === checkIn.username);
+
+        if (existingIndex !== -1) {
+            // Only update if the new check-in is newer
+            const existingTimestamp = new Date(this.checkIns[existingIndex].timestamp).getTime();
+            const newTimestamp = new Date(checkIn.timestamp).getTime();
+            
+            if (newTimestamp > existingTimestamp) {
+                this.checkIns[existingIndex] = checkIn;
+                return true;
+            }
+            return false; // Don't update or refresh view with older data
+        }
+        
+        // Add new check-in
+        this.checkIns.push(checkIn);
+        
+        // Limit the number of check-ins stored in memory to what the server keeps
+        const historySize = this.webSocketClient.getLimits().historySize;
+        if (this.checkIns.length > historySize) {
+            this.checkIns = this.checkIns.slice(0, historySize);
+        }
+        return true;
+    }
+
+    /**
+     * Merge a complete history backlog and render it in a single update.
+     * History check-ins are not counted as new for the status bar notification.
+     */
+    private setHistory(history: NewCheckInMessage[]) {
+        try {
+            let changed = false;
+            history.forEach(message => {
+                changed = this.upsertCheckIn(this.toCheckInData(message)) || changed;
+            });
+            
+            if (changed) {
+                this._onCheckInsCountChanged.fire(this.checkIns.length);
+            }
+            
+            // Render once, even if the backlog was empty, so the placeholder is replaced
+            this.updateView();
+        } catch (error) {
+            this.log.error("Error applying check-in history:", error);
+        }
+    }
+
     public addCheckIn(checkIn: CheckInData) {
         try {
-            // Check if this user already has a check-in
-            const existingIndex = this.checkIns.findIndex(c => c.username === checkIn.username);
-            let isNewOrUpdated = false;
-    
-            if (existingIndex !== -1) {
-                // Only update if the new check-in is newer
-                const existingTimestamp = new Date(this.checkIns[existingIndex].timestamp).getTime();
-                const newTimestamp = new Date(checkIn.timestamp).getTime();
-                
-                if (newTimestamp > existingTimestamp) {
-                    this.checkIns[existingIndex] = checkIn;
-                    isNewOrUpdated = true;
-                } else {
-                    return; // Don't update or refresh view with older data
-                }
-            } else {
-                // Add new check-in
-                this.checkIns.push(checkIn);
-                isNewOrUpdated = true;
-                
-                // Limit the number of check-ins stored in memory
-                if (this.checkIns.length > 100) {
-                    this.checkIns = this.checkIns.slice(0, 100);
-                }
+            if (!this.upsertCheckIn(checkIn)) {
+                return; // Don't update or refresh view with older data
             }
             
-            // If this is a new or updated check-in and the view isn't visible, increment the counter
-            if (isNewOrUpdated && !this.isVisible()) {
+            // This is a new or updated check-in; if the view isn't visible, increment the counter
+            if (!this.isVisible()) {
                 this.newCheckInsCount++;
                 // Notify extension that we have new check-ins
                 vscode.commands.executeCommand('yna.notifyNewCheckIn');
             }
             
-            // If the check-ins count has changed, notify listeners
-            if (isNewOrUpdated) {
-                this._onCheckInsCountChanged.fire(this.checkIns.length);
-            }
+            // The check-ins changed, notify listeners
+            this._onCheckInsCountChanged.fire(this.checkIns.length);
     
             // If the webview is ready, update it. Otherwise, store the check-in for later
             if (this.webviewReady) {
@@ -255,7 +387,7 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                 }
             }
         } catch (error) {
-            console.error("Error adding check-in to panel:", error);
+            this.log.error("Error adding check-in to panel:", error);
         }
     }
 
@@ -278,7 +410,7 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                 // If the checkIns were pending, clear them now
                 this.pendingCheckIns = [];
             } catch (error) {
-                console.error("Error updating view:", error);
+                this.log.error("Error updating view:", error);
             }
         } else {
             // Ensure we try again later if webview is not ready
@@ -304,6 +436,9 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
         // Use a nonce to only allow specific scripts to be run
         const nonce = this.getNonce();
 
+        // Until the server sends its config the default limit applies
+        const maxMessageLength = this.webSocketClient.getLimits().maxMessageLength;
+
         // Stage 1: Clean up the existing UI while keeping functionality
         const html = `<!DOCTYPE html>
 <html lang="en">
@@ -369,6 +504,14 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             color: var(--vscode-descriptionForeground);
             font-size: 0.85em;
         }
+        .pending-badge {
+            margin-left: 6px;
+            padding: 1px 5px;
+            border-radius: 4px;
+            font-size: 10px;
+            color: var(--vscode-descriptionForeground);
+            border: 1px dashed var(--vscode-descriptionForeground);
+        }
         .tags {
             margin: 5px 0;
         }
@@ -382,6 +525,18 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             color: white;
             background-color: var(--vscode-badge-background);
         }
+        /* Activity context, e.g. debugging, set apart from the tech tags */
+        .context-chip {
+            display: inline-block;
+            padding: 1px 6px;
+            margin-right: 4px;
+            margin-bottom: 4px;
+            border-radius: 10px;
+            font-size: 11px;
+            font-style: italic;
+            color: var(--vscode-textLink-foreground);
+            border: 1px solid var(--vscode-textLink-foreground);
+        }
         /* Position-based tag colors instead of language-specific */
         .tag-1 {
             background-color: #717D92;
@@ -408,6 +563,60 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             position: relative;
             margin-bottom: 8px;
         }
+        .tag-chips {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 4px;
+            margin-bottom: 6px;
+        }
+        .tag-chip {
+            display: inline-flex;
+            align-items: center;
+            gap: 4px;
+            padding: 2px 6px;
+            border-radius: 4px;
+            font-size: 11px;
+            background: none;
+            color: var(--vscode-descriptionForeground);
+            border: 1px dashed var(--vscode-descriptionForeground);
+        }
+        .tag-chip:hover {
+            background: none;
+            color: var(--vscode-foreground);
+        }
+        .tag-chip.selected {
+            color: white;
+            background-color: #717D92;
+            border: 1px solid #717D92;
+        }
+        .tag-chip-remove {
+            opacity: 0.7;
+        }
+        .tag-chip-remove:hover {
+            opacity: 1;
+        }
+        .tag-input {
+            width: 70px;
+            padding: 2px 6px;
+            font-size: 11px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 4px;
+        }
+        .privacy-notice {
+            display: none;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 6px;
+        }
+        .tag-error {
+            display: none;
+            font-size: 11px;
+            color: var(--vscode-errorForeground, #f48771);
+            margin-bottom: 6px;
+        }
         .message-input {
             width: 100%;
             padding: 6px 8px 6px 8px;
@@ -533,11 +742,33 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             color: var(--vscode-errorForeground, #f48771);
         }
         .status {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
             padding: 5px 12px;
             font-size: 0.85em;
             color: var(--vscode-descriptionForeground);
             border-bottom: 1px solid var(--vscode-panel-border);
         }
+        .connection-quality {
+            display: none;
+            width: 8px;
+            height: 8px;
+            border-radius: 50%;
+            flex-shrink: 0;
+        }
+        .connection-quality.good {
+            display: inline-block;
+            background-color: #2ea44f;
+        }
+        .connection-quality.fair {
+            display: inline-block;
+            background-color: #fcb627;
+        }
+        .connection-quality.poor {
+            display: inline-block;
+            background-color: #f48771;
+        }
         .no-check-ins {
             padding: 20px;
             text-align: center;
@@ -610,18 +841,21 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
 <body>
     <div id="login-section">
         <h3>You're Not Alone</h3>
-        <p>Sign in with GitHub to check in and see who else is coding right now.</p>
+        <p id="login-message">Sign in with GitHub to check in and see who else is coding right now.</p>
         <button id="login-button">
             <svg viewBox="0 0 16 16" fill="currentColor">
                 <path d="M8 0C3.58 0 0 3.58 0 8c0 3.54 2.29 6.53 5.47 7.59.4.07.55-.17.55-.38 0-.19-.01-.82-.01-1.49-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82.64-.18 1.32-.27 2-.27.68 0 1.36.09 2 .27 1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48 0 1.07-.01 1.93-.01 2.2 0 .21.15.46.55.38A8.013 8.013 0 0016 8c0-4.42-3.58-8-8-8z"></path>
             </svg>
-            Sign in with GitHub
+            <span id="login-button-label">Sign in with GitHub</span>
         </button>
     </div>
 
     <div id="main-content">
         <!-- Removing redundant header -->
-        <div class="status" id="status">Loading...</div>
+        <div class="status" id="status-bar">
+            <span id="status">Loading...</span>
+            <span class="connection-quality" id="connection-quality"></span>
+        </div>
         
         <div class="check-ins-container">
             <div class="no-check-ins" id="placeholder">Loading check-ins...</div>
@@ -629,6 +863,12 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
         </div>
         
         <div class="input-area">
+            <div class="privacy-notice" id="privacy-notice"></div>
+            <div class="tag-chips" id="tag-chips" title="Click a tag to leave it out of your check-in">
+                <span class="tag-chips" id="tag-chip-list"></span>
+                <input type="text" id="tag-input" class="tag-input" placeholder="+ tag" maxlength="32">
+            </div>
+            <div class="tag-error" id="tag-error"></div>
             <div class="input-container">
                 <input type="text" id="message-input" class="message-input" placeholder="What's on your mind?">
                 <button id="emoji-button" class="emoji-button" title="Add emoji">😊</button>
@@ -636,7 +876,7 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             </div>
             <div class="button-container">
                 <button id="check-in-button">Check In</button>
-                <span class="char-counter" id="char-counter">42 chars left</span>
+                <span class="char-counter" id="char-counter">${maxMessageLength} chars left</span>
                 <button class="logout-button" id="logout-button" title="Logout">logout ⏻</button>
             </div>
         </div>
@@ -647,6 +887,8 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             try {
                 // DOM elements
                 const statusElement = document.getElementById('status');
+                const statusBarElement = document.getElementById('status-bar');
+                const connectionQualityElement = document.getElementById('connection-quality');
                 const checkInsElement = document.getElementById('check-ins');
                 const placeholderElement = document.getElementById('placeholder');
                 const messageInput = document.getElementById('message-input');
@@ -655,20 +897,123 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                 const emojiButton = document.getElementById('emoji-button');
                 const emojiPicker = document.getElementById('emoji-picker');
                 const charCounter = document.getElementById('char-counter');
+                const tagChipList = document.getElementById('tag-chip-list');
+                const tagInput = document.getElementById('tag-input');
+                const tagError = document.getElementById('tag-error');
+                const privacyNotice = document.getElementById('privacy-notice');
                 const loginSection = document.getElementById('login-section');
                 const mainContent = document.getElementById('main-content');
                 const loginButton = document.getElementById('login-button');
+                const loginMessage = document.getElementById('login-message');
+                const loginButtonLabel = document.getElementById('login-button-label');
+                
+                // Set when the server rejected our session and a fresh sign-in is needed
+                let signInAgainRequired = false;
                 
                 // Authentication state
                 let isAuthenticated = false;
                 
-                // Character limit constants
-                const MAX_CHARS = 42;
+                // How activity contexts are shown; unknown ones from newer clients are skipped
+                const contextLabels = {
+                    'debugging': '🐞 debugging',
+                    'testing': '🧪 testing',
+                    'building': '🔨 building',
+                    'resolving-conflicts': '🔀 resolving conflicts'
+                };
+                
+                // Character limit, updated when the server announces its own
+                let maxChars = ${maxMessageLength};
                 
                 // Cooldown state
                 let isOnCooldown = false;
                 let cooldownTimer = null;
                 
+                // Tags for the next check-in: { tag, selected, detected }
+                let tagChips = [];
+                let maxTags = 3;
+                // Set once the user edits the tags, so new suggestions don't undo their changes
+                let tagsTouched = false;
+                // Set when a privacy rule decides the tags
+                let tagsLocked = false;
+                
+                // Show or clear the message under the tag chips
+                function showTagError(error) {
+                    tagError.textContent = error || '';
+                    tagError.style.display = error ? 'block' : 'none';
+                }
+                
+                // Draw the tag chips; detected tags toggle, the user's own can be removed
+                function renderTagChips() {
+                    tagChipList.innerHTML = '';
+                    tagChips.forEach(chip => {
+                        const chipElement = document.createElement('button');
+                        chipElement.className = 'tag-chip' + (chip.selected ? ' selected' : '');
+                        chipElement.textContent = chip.tag;
+                        chipElement.disabled = isOnCooldown || tagsLocked;
+                        chipElement.addEventListener('click', () => {
+                            if (!chip.selected && tagChips.filter(c => c.selected).length >= maxTags) {
+                                showTagError('Up to ' + maxTags + ' tags, leave one out first');
+                                return;
+                            }
+                            chip.selected = !chip.selected;
+                            tagsTouched = true;
+                            showTagError('');
+                            renderTagChips();
+                        });
+                        
+                        if (!chip.detected && !tagsLocked) {
+                            const removeElement = document.createElement('span');
+                            removeElement.className = 'tag-chip-remove';
+                            removeElement.textContent = '×';
+                            removeElement.title = 'Remove tag';
+                            removeElement.addEventListener('click', (e) => {
+                                e.stopPropagation();
+                                if (isOnCooldown) return;
+                                tagChips = tagChips.filter(c => c !== chip);
+                                tagsTouched = true;
+                                showTagError('');
+                                renderTagChips();
+                            });
+                            chipElement.appendChild(removeElement);
+                        }
+                        tagChipList.appendChild(chipElement);
+                    });
+                }
+                
+                // Take new suggestions, keeping the user's edits since the last check-in
+                function updateTagChips(suggestions) {
+                    if (!tagsTouched || tagsLocked) {
+                        tagChips = suggestions;
+                    } else {
+                        const previous = new Map(tagChips.map(chip => [chip.tag, chip]));
+                        const merged = suggestions.map(suggestion => ({
+                            ...suggestion,
+                            selected: previous.has(suggestion.tag) ? previous.get(suggestion.tag).selected : false
+                        }));
+                        tagChips.forEach(chip => {
+                            if ((chip.selected || !chip.detected) && !merged.some(m => m.tag === chip.tag)) {
+                                merged.push(chip);
+                            }
+                        });
+                        tagChips = merged;
+                    }
+                    renderTagChips();
+                }
+                
+                // Add a tag the extension has checked, selecting it if there is room
+                function addTagChip(tag) {
+                    const room = tagChips.filter(c => c.selected).length < maxTags;
+                    const existing = tagChips.find(c => c.tag === tag);
+                    if (existing) {
+                        existing.selected = existing.selected || room;
+                    } else {
+                        tagChips.push({ tag, selected: room, detected: false });
+                    }
+                    showTagError(room ? '' : 'Up to ' + maxTags + ' tags, ' + tag + ' was added unselected');
+                    tagsTouched = true;
+                    renderTagChips();
+                }
+                
                 // Update character counter function
                 function updateCharCounter() {
                     // If on cooldown, don't update the counter
@@ -677,7 +1022,7 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                     }
                     
                     const textLength = messageInput.value.length;
-                    const remaining = MAX_CHARS - textLength;
+                    const remaining = maxChars - textLength;
                     charCounter.textContent = remaining + " chars left";
                     
                     // Apply error styles if over limit
@@ -698,6 +1043,8 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                     messageInput.disabled = true;
                     checkInButton.disabled = true;
                     emojiButton.disabled = true;
+                    tagInput.disabled = true;
+                    renderTagChips();
                     
                     // Close emoji picker if open
                     emojiPicker.style.display = 'none';
@@ -725,6 +1072,8 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                     messageInput.disabled = false;
                     checkInButton.disabled = false;
                     emojiButton.disabled = false;
+                    tagInput.disabled = tagsLocked;
+                    renderTagChips();
                     
                     // Update character counter
                     updateCharCounter();
@@ -830,7 +1179,7 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                     
                     // Set up login button
                     loginButton.addEventListener('click', () => {
-                        vscode.postMessage({ command: 'login' });
+                        vscode.postMessage({ command: signInAgainRequired ? 'signInAgain' : 'login' });
                     });
                     
                     // Set up check-in button
@@ -838,10 +1187,25 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                         const message = messageInput.value.trim();
                         
                         // Check if message is within character limit
-                        if (message.length <= MAX_CHARS) {
-                            vscode.postMessage({ command: 'checkIn', message });
+                        if (message.length <= maxChars) {
+                            const tags = tagChips.filter(chip => chip.selected).map(chip => chip.tag);
+                            vscode.postMessage({ command: 'checkIn', message, tags });
                             messageInput.value = '';
                             updateCharCounter();
+                            
+                            // The extension remembers these choices and sends fresh suggestions
+                            tagsTouched = false;
+                            showTagError('');
+                        }
+                    });
+                    
+                    // Enter in the tag field asks the extension to check and normalise the tag
+                    tagInput.addEventListener('keydown', (e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            if (tagInput.value.trim()) {
+                                vscode.postMessage({ command: 'addTag', text: tagInput.value });
+                            }
                         }
                     });
                     
@@ -854,7 +1218,7 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                     messageInput.addEventListener('keydown', (e) => {
                         if (e.key === 'Enter' && !e.shiftKey) {
                             e.preventDefault();
-                            if (messageInput.value.trim().length <= MAX_CHARS) {
+                            if (messageInput.value.trim().length <= maxChars) {
                                 checkInButton.click();
                             }
                         }
@@ -867,19 +1231,34 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                         if (message.command === 'updateCheckIns') {
                             updateCheckInsList(message.checkIns);
                         } else if (message.command === 'connectionStatus') {
-                            statusElement.textContent = message.connected ? 
-                                'Connected' : 'Reconnecting...';
+                            statusElement.title = '';
+                            if (message.mode === 'offline') {
+                                statusElement.textContent = 'Offline mode';
+                            } else if (message.mode === 'demo') {
+                                statusElement.textContent = message.connected ? 'Demo mode' : 'Starting demo...';
+                            } else {
+                                statusElement.textContent = message.connected ? 
+                                    'Connected' : 'Reconnecting...';
+                            }
                             
+                            // Check-ins made while disconnected are queued, so the button stays usable
                             if (!message.connected) {
-                                statusElement.style.backgroundColor = '#5a1d1d';
-                                checkInButton.disabled = true;
+                                statusBarElement.style.backgroundColor = '#5a1d1d';
+                                connectionQualityElement.className = 'connection-quality';
                             } else {
-                                statusElement.style.backgroundColor = '';
-                                // Only enable if not on cooldown
-                                if (!isOnCooldown) {
-                                    checkInButton.disabled = false;
+                                statusBarElement.style.backgroundColor = '';
+                                
+                                // Connected again after a rejected session, leave the sign-in prompt
+                                if (signInAgainRequired) {
+                                    signInAgainRequired = false;
+                                    loginMessage.textContent = 'Sign in with GitHub to check in and see who else is coding right now.';
+                                    loginButtonLabel.textContent = 'Sign in with GitHub';
+                                    updateAuthUI(true);
                                 }
                             }
+                        } else if (message.command === 'connectionQuality') {
+                            connectionQualityElement.className = 'connection-quality ' + message.quality;
+                            connectionQualityElement.title = 'Connection ' + message.quality + ' (' + message.latencyMs + ' ms round trip)';
                         } else if (message.command === 'updateOnlineUsers') {
                             const count = message.count;
                             const checkInsCount = document.querySelectorAll('.check-in-item').length;
@@ -895,6 +1274,32 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                             } else {
                                 endCooldown();
                             }
+                        } else if (message.command === 'authFailed') {
+                            // Ask for a fresh sign-in, explaining why
+                            signInAgainRequired = true;
+                            loginMessage.textContent = message.message + ' Sign in again to keep checking in.';
+                            loginButtonLabel.textContent = 'Sign in again with GitHub';
+                            updateAuthUI(false);
+                        } else if (message.command === 'limits') {
+                            maxChars = message.maxMessageLength;
+                            updateCharCounter();
+                        } else if (message.command === 'tagSuggestions') {
+                            maxTags = message.maxTags;
+                            tagsLocked = message.locked;
+                            privacyNotice.textContent = message.privacyNotice;
+                            privacyNotice.style.display = message.privacyNotice ? 'block' : 'none';
+                            tagInput.style.display = tagsLocked ? 'none' : '';
+                            tagInput.disabled = tagsLocked || isOnCooldown;
+                            updateTagChips(message.tags);
+                        } else if (message.command === 'tagAdded') {
+                            tagInput.value = '';
+                            addTagChip(message.tag);
+                        } else if (message.command === 'tagError') {
+                            showTagError(message.error);
+                        } else if (message.command === 'updateRequired') {
+                            // The server won't talk to this version, reconnecting won't help
+                            statusElement.textContent = 'Update required';
+                            statusElement.title = message.message;
                         } else if (message.command === 'authStatus') {
                             // Update UI based on authentication status
                             updateAuthUI(message.authenticated);
@@ -1029,6 +1434,15 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                             timestamp.className = 'timestamp';
                             timestamp.textContent = timeAgo(checkIn.timestamp);
                             timestamp.title = new Date(checkIn.timestamp).toLocaleString();
+                            
+                            // Mark check-ins that are still waiting to reach the server
+                            if (checkIn.pending) {
+                                const pendingBadge = document.createElement('span');
+                                pendingBadge.className = 'pending-badge';
+                                pendingBadge.textContent = 'pending';
+                                pendingBadge.title = 'Queued while offline, will be sent when reconnected';
+                                timestamp.appendChild(pendingBadge);
+                            }
                             header.appendChild(timestamp);
                             
                             item.appendChild(header);
@@ -1041,13 +1455,14 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                                 item.appendChild(snippetText);
                             }
                             
-                            // Add tags if present
-                            if (checkIn.tags && checkIn.tags.length > 0) {
+                            // Add tags and activity context if present
+                            const contexts = (checkIn.context || []).filter(context => contextLabels[context]);
+                            if ((checkIn.tags && checkIn.tags.length > 0) || contexts.length > 0) {
                                 const tagsContainer = document.createElement('div');
                                 tagsContainer.className = 'tags';
                                 
                                 // Display at most 3 tags
-                                const tagLimit = Math.min(3, checkIn.tags.length);
+                                const tagLimit = Math.min(3, checkIn.tags ? checkIn.tags.length : 0);
                                 
                                 for (let i = 0; i < tagLimit; i++) {
                                     const tag = document.createElement('span');
@@ -1056,6 +1471,13 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                                     tagsContainer.appendChild(tag);
                                 }
                                 
+                                contexts.forEach(context => {
+                                    const chip = document.createElement('span');
+                                    chip.className = 'context-chip';
+                                    chip.textContent = contextLabels[context];
+                                    tagsContainer.appendChild(chip);
+                                });
+                                
                                 item.appendChild(tagsContainer);
                             }
                             
@@ -1098,8 +1520,38 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
         return html;
     }
 
+    /**
+     * Send the form the tags to offer for the next check-in
+     */
+    private updateTagSuggestions() {
+        if (!this._view || !this.webviewReady) {
+            return;
+        }
+        
+        // Offer a few more detected tags than the server keeps, so there is something to swap in
+        const maxTags = this.webSocketClient.getLimits().maxTags;
+        const privacyRule = getActivePrivacyRule();
+        this.tagSuggestions = this.tagChoices.getSuggestions(getActiveFileTags(maxTags * 2), maxTags);
+        this._view.webview.postMessage({
+            command: 'tagSuggestions',
+            tags: this.tagSuggestions,
+            maxTags,
+            privacyNotice: privacyRule ? describePrivacyRule(privacyRule) : '',
+            // Hiding or replacing the tags leaves nothing to choose
+            locked: privacyRule?.mode === 'exclude' || privacyRule?.mode === 'label'
+        });
+    }
+
+    // Check a tag typed in the form and send it back normalised
+    private handleAddTag(text: unknown) {
+        const parsed = parseCustomTag(typeof text === 'string' ? text : '');
+        this._view?.webview.postMessage('error' in parsed
+            ? { command: 'tagError', error: parsed.error }
+            : { command: 'tagAdded', tag: parsed.tag });
+    }
+
     // Handle check-in from the view UI
-    private async handleCheckIn(message: string) {
+    private async handleCheckIn(message: string, selectedTags: unknown) {
         // Try to get GitHub username using authentication
         const username = await this.getAuthenticatedGitHubUsername();
         
@@ -1113,23 +1565,10 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             return;
         }
         
-        // Ensure WebSocket is connected
-        if (!this.webSocketClient.isConnected()) {
-            this.webSocketClient.reconnect();
-            
+        // Ensure WebSocket is connected, without restarting a handshake in progress
+        if (this.webSocketClient.ensureConnected()) {
             // Wait a moment for the connection to establish
             await new Promise(resolve => setTimeout(resolve, 1000));
-            
-            // Verify connection
-            if (!this.webSocketClient.isConnected()) {
-                if (this._view) {
-                    this._view.webview.postMessage({
-                        command: 'checkInError',
-                        error: 'Could not connect to server. Please try again later.'
-                    });
-                }
-                return;
-            }
         }
         
         // Check if user is on cooldown
@@ -1144,29 +1583,35 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             return;
         }
         
-        // Automatically get the active file's language as tags
-        const activeLanguageTags = getActiveFileTags();
+        // The tags come from the webview, so check them again
+        const activeLanguageTags = sanitizeTags(selectedTags, this.webSocketClient.getLimits().maxTags);
+        this.tagChoices.remember(this.tagSuggestions, activeLanguageTags);
         
-        // Send check-in to server
-        const success = await this.webSocketClient.sendCheckIn(username, activeLanguageTags, message);
+        // Send check-in to server, which applies the privacy rules
+        const result = await this.webSocketClient.sendCheckIn(username, activeLanguageTags, message);
+        const sentTags = result.tags ?? activeLanguageTags;
+        const privacyNote = result.privacyRule ? ' (privacy rule applied)' : '';
+        this.updateTagSuggestions();
         
         // Show result in the webview
         if (this._view) {
-            if (success) {
+            if (result.status !== 'rejected') {
                 this._view.webview.postMessage({
                     command: 'checkInSuccess'
                 });
                 
                 // Trigger show temporary message
-                if (activeLanguageTags.length > 0) {
-                    vscode.commands.executeCommand('yna.showTemporaryMessage', `Checked in as ${username} working on ${activeLanguageTags.join(', ')}`);
+                if (result.status === 'queued') {
+                    vscode.commands.executeCommand('yna.showTemporaryMessage', 'Check-in queued, it will be sent once the server is reachable');
+                } else if (sentTags.length > 0) {
+                    vscode.commands.executeCommand('yna.showTemporaryMessage', `Checked in as ${username} working on ${sentTags.join(', ')}${privacyNote}`);
                 } else {
-                    vscode.commands.executeCommand('yna.showTemporaryMessage', `Checked in as ${username}`);
+                    vscode.commands.executeCommand('yna.showTemporaryMessage', `Checked in as ${username}${privacyNote}`);
                 }
             } else {
                 this._view.webview.postMessage({
                     command: 'checkInError',
-                    error: 'Check-in failed. Please try again later.'
+                    error: `Check-in failed: ${result.reason ?? 'Please try again later.'}`
                 });
             }
         }
@@ -1203,18 +1648,20 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                 const accessToken = session.accessToken;
                 
                 // Call GitHub API
-                const response = await fetch('https://api.github.com/user', {
+                const response = await fetch(GITHUB_USER_URL, {
                     headers: {
                         'Authorization': 'token ' + accessToken,
                         'User-Agent': 'YNA-VSCode-Extension'
-                    }
+                    },
+                    agent: getProxyAgent(GITHUB_USER_URL)
                 });
                 
                 if (response.ok) {
                     const userData = await response.json();
                     return userData.login; // GitHub username
                 } else {
-                    vscode.window.showErrorMessage('Failed to get GitHub user information');
+                    const proxyProblem = describeProxyStatus(response.status);
+                    vscode.window.showErrorMessage(`Failed to get GitHub user information${proxyProblem ? '. ' + proxyProblem : ''}`);
                     return undefined;
                 }
             } else {
@@ -1222,8 +1669,9 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                 return undefined;
             }
         } catch (error) {
-            console.error('Failed to authenticate with GitHub:', error);
-            vscode.window.showErrorMessage(`GitHub authentication error: ${error instanceof Error ? error.message : String(error)}`);
+            this.log.error('Failed to authenticate with GitHub:', error);
+            const message = error instanceof Error ? describeProxyFailure(GITHUB_USER_URL, error) ?? error.message : String(error);
+            vscode.window.showErrorMessage(`GitHub authentication error: ${message}`);
             return undefined;
         }
     }
@@ -1276,6 +1724,17 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
         return this.checkIns.length;
     }
 
+    // Update the connection quality indicator in the webview
+    private updateConnectionQuality(latencyMs: number) {
+        if (this._view && this.webviewReady) {
+            this._view.webview.postMessage({
+                command: 'connectionQuality',
+                latencyMs,
+                quality: getConnectionQuality(latencyMs)
+            });
+        }
+    }
+
     private updateCooldownStatus(remainingMs: number) {
         if (this._view && this.webviewReady) {
             this._view.webview.postMessage({
@@ -1295,18 +1754,18 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             const username = await this.getAuthenticatedGitHubUsername();
             
             if (username) {
-                // Only reconnect if not already connected
+                // Only reconnect if not already connected or connecting
                 if (!this.webSocketClient.isConnected()) {
-                    console.log('Reconnecting WebSocket for authenticated user...');
-                    // Ensure WebSocket is connected
-                    this.webSocketClient.reconnect();
+                    if (this.webSocketClient.ensureConnected()) {
+                        this.log.info('Reconnecting for authenticated user...');
+                    }
                     
                     // Wait a short moment for the connection to attempt to establish
                     await new Promise(resolve => setTimeout(resolve, 500));
                     
                     // If still not connected, show a message
                     if (!this.webSocketClient.isConnected()) {
-                        console.log('WebSocket reconnection in progress...');
+                        this.log.debug('Reconnection in progress...');
                         if (this._view && this.webviewReady) {
                             this._view.webview.postMessage({
                                 command: 'connectionStatus',
@@ -1315,16 +1774,16 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                             });
                         }
                     } else {
-                        console.log('WebSocket reconnection successful');
+                        this.log.debug('Reconnection successful');
                     }
                 } else {
-                    console.log('WebSocket already connected');
+                    this.log.debug('Already connected');
                 }
             } else {
-                console.log('User not authenticated, skipping WebSocket reconnection');
+                this.log.info('User not authenticated, skipping reconnection');
             }
         } catch (error) {
-            console.error('Error in checkAuthAndReconnect:', error);
+            this.log.error('Error in checkAuthAndReconnect:', error);
         }
     }
 
@@ -1337,10 +1796,8 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
             const username = await this.getAuthenticatedGitHubUsername();
             
             if (username) {
-                // Try to reconnect if needed
-                if (!this.webSocketClient.isConnected()) {
-                    this.webSocketClient.reconnect();
-                    
+                // Try to reconnect if needed, a handshake in progress is left to finish
+                if (this.webSocketClient.ensureConnected()) {
                     // Wait a moment for connection to establish
                     await new Promise(resolve => setTimeout(resolve, 1000));
                 }
@@ -1357,7 +1814,7 @@ export class SecondaryCheckInView implements vscode.WebviewViewProvider {
                 }
             }
         } catch (error) {
-            console.error('Error handling login:', error);
+            this.log.error('Error handling login:', error);
             // Show error message to user
             if (this._view && this.webviewReady) {
                 this._view.webview.postMessage({
@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+
+/**
+ * A named backend the extension can connect to
+ */
+export interface ServerProfile {
+    name: string;
+    url: string;
+}
+
+// Profiles that are always available, user profiles with the same name override them
+export const DEFAULT_SERVER_PROFILES: Record<string, string> = {
+    'public': 'wss://yna-backend.renie-ravin.workers.dev',
+    'local': 'ws://localhost:8787'
+};
+
+export const DEFAULT_SERVER_PROFILE_NAME = 'public';
+
+/**
+ * Check that a server URL is a WebSocket URL
+ */
+export function isValidServerUrl(url: string): boolean {
+    try {
+        const parsed = new URL(url);
+        return parsed.protocol === 'ws:' || parsed.protocol === 'wss:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get all configured server profiles, built-in ones first.
+ * Profiles with an invalid URL are left out.
+ */
+export function getServerProfiles(): ServerProfile[] {
+    const configured = vscode.workspace.getConfiguration('yna.server').get<Record<string, string>>('profiles', {});
+    const merged: Record<string, string> = { ...DEFAULT_SERVER_PROFILES, ...configured };
+
+    return Object.keys(merged)
+        .filter(name => typeof merged[name] === 'string' && isValidServerUrl(merged[name]))
+        .map(name => ({ name, url: merged[name] }));
+}
+
+/**
+ * Resolve the profile selected in yna.server.profile
+ * @returns the active profile, and a warning if the selection was unusable and the default was used instead
+ */
+export function resolveActiveServerProfile(): { profile: ServerProfile, warning?: string } {
+    const config = vscode.workspace.getConfiguration('yna.server');
+    const selected = config.get<string>('profile', DEFAULT_SERVER_PROFILE_NAME);
+    const configured = config.get<Record<string, string>>('profiles', {});
+    const fallback: ServerProfile = {
+        name: DEFAULT_SERVER_PROFILE_NAME,
+        url: DEFAULT_SERVER_PROFILES[DEFAULT_SERVER_PROFILE_NAME]
+    };
+
+    const url = configured[selected] ?? DEFAULT_SERVER_PROFILES[selected];
+    if (url === undefined) {
+        return { profile: fallback, warning: `Unknown server profile "${selected}", using "${fallback.name}" instead.` };
+    }
+    if (typeof url !== 'string' || !isValidServerUrl(url)) {
+        return {
+            profile: fallback,
+            warning: `Server profile "${selected}" must be a ws:// or wss:// URL, using "${fallback.name}" instead.`
+        };
+    }
+
+    return { profile: { name: selected, url } };
+}
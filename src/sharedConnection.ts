@@ -0,0 +1,603 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Transport, WebSocketTransport } from './transport';
+import {
+    Message, NewCheckInMessage, HelloOkMessage, ConfigMessage, AuthOkMessage, SessionMessage, HistoryRequestMessage
+} from './protocol';
+import { parseMessage } from './protocolValidation';
+import { Logger } from './logger';
+
+/**
+ * One server connection shared by all VS Code windows of a user.
+ *
+ * The first window to connect becomes the leader: it holds the WebSocket and serves a
+ * local channel (a Unix socket or a named pipe) that later windows join as followers.
+ * Followers speak the normal check-in protocol over the channel. The leader answers
+ * their handshake and history requests itself, forwards their check-ins, and relays
+ * new check-ins, acknowledgements and the online count to every window.
+ * When the leader goes away the channel closes, and the first follower to reconnect
+ * takes over.
+ */
+
+// What travels over the local channel, one JSON object per line
+type ChannelFrame =
+    | { kind: 'frame', data: string } // A protocol message
+    | { kind: 'ping' } // Answered once the server answers the leader's ping
+    | { kind: 'pong' };
+
+// Close code followers report when the leader window goes away
+const LEADER_GONE_CODE = 1001;
+// Close code followers report when the leader doesn't answer their handshake
+const HANDSHAKE_TIMEOUT_CODE = 4008;
+// How long a follower waits for the leader to answer its auth frame
+const FOLLOWER_HANDSHAKE_TIMEOUT_MS = 10000;
+
+/**
+ * Get the local channel for a server and account.
+ * The token is part of the name so different accounts never share a connection.
+ */
+function getChannelPath(url: string, token: string): string {
+    const id = crypto.createHash('sha256').update(`${url}\n${token}`).digest('hex').substring(0, 16);
+    return process.platform === 'win32'
+        ? `\\\\.\\pipe\\yna-${id}`
+        : path.join(os.tmpdir(), `yna-${id}.sock`);
+}
+
+function hashToken(token: string): Buffer {
+    return crypto.createHash('sha256').update(token).digest();
+}
+
+/**
+ * Write a frame to the channel
+ */
+function writeFrame(socket: net.Socket, frame: ChannelFrame) {
+    if (!socket.destroyed) {
+        socket.write(JSON.stringify(frame) + '\n');
+    }
+}
+
+/**
+ * Split incoming data into frames, keeping an incomplete last line for the next chunk
+ */
+function readFrames(socket: net.Socket, onFrame: (frame: ChannelFrame) => void) {
+    let buffered = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+        buffered += chunk;
+        let newline: number;
+        while ((newline = buffered.indexOf('\n')) !== -1) {
+            const line = buffered.substring(0, newline);
+            buffered = buffered.substring(newline + 1);
+            try {
+                onFrame(JSON.parse(line) as ChannelFrame);
+            } catch {
+                // Not one of ours, ignore it
+            }
+        }
+    });
+}
+
+/**
+ * Join the leader's channel
+ * @returns the connected socket, or the error code if nobody is listening
+ */
+function tryConnect(channelPath: string): Promise<net.Socket | string> {
+    return new Promise(resolve => {
+        const socket = net.connect(channelPath);
+        socket.once('connect', () => {
+            socket.removeAllListeners('error');
+            resolve(socket);
+        });
+        socket.once('error', (error: NodeJS.ErrnoException) => {
+            socket.destroy();
+            resolve(error.code ?? 'UNKNOWN');
+        });
+    });
+}
+
+/**
+ * Start serving the channel
+ * @returns the server, or undefined if another window already serves it
+ */
+function tryListen(channelPath: string): Promise<net.Server | undefined> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.once('error', (error: NodeJS.ErrnoException) => {
+            if (error.code === 'EADDRINUSE') {
+                resolve(undefined);
+            } else {
+                reject(error);
+            }
+        });
+        server.listen(channelPath, () => {
+            server.removeAllListeners('error');
+            if (process.platform !== 'win32') {
+                // Only this user may join; the token check below is the real gate
+                try {
+                    fs.chmodSync(channelPath, 0o600);
+                } catch {
+                    // Not fatal, followers still have to present the token
+                }
+            }
+            resolve(server);
+        });
+    });
+}
+
+/**
+ * Connect to the server, through another window's connection when there is one
+ * @param url WebSocket URL of the server
+ * @param token Token the client will authenticate with
+ * @param getHistory Check-ins the leader serves to followers that ask for history
+ */
+export async function openSharedTransport(url: string, token: string, getHistory: () => NewCheckInMessage[]): Promise<Transport> {
+    const log = Logger.getInstance();
+    const channelPath = getChannelPath(url, token);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+        const connected = await tryConnect(channelPath);
+        if (typeof connected !== 'string') {
+            log.info('Joining the connection held by another window');
+            return new FollowerTransport(connected);
+        }
+
+        const server = await tryListen(channelPath);
+        if (server) {
+            log.info('Holding the connection for all windows');
+            return new LeaderTransport(new WebSocketTransport(url), server, token, getHistory);
+        }
+
+        // Nobody answers but the address is taken: a socket file left by a window that crashed
+        if (connected === 'ECONNREFUSED' && process.platform !== 'win32') {
+            try {
+                fs.unlinkSync(channelPath);
+            } catch {
+                // Another window got to it first
+            }
+        }
+
+        // Another window is electing itself at the same moment, give it a head start
+        await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 100));
+    }
+
+    log.warn('Could not share the connection with other windows, connecting on our own');
+    return new WebSocketTransport(url);
+}
+
+/**
+ * A window joined to the leader's channel
+ */
+interface Follower {
+    socket: net.Socket;
+    authenticated: boolean; // Gets relayed messages once it has been sent auth_ok
+    waiting: Message[]; // Frames received before the leader could answer them
+}
+
+/**
+ * Transport of the window that holds the server connection.
+ * To its own client it is the WebSocket; to the other windows it is the server.
+ */
+export class LeaderTransport implements Transport {
+    private log = Logger.getInstance();
+    private followers = new Set<Follower>();
+    private followerCheckIns = new Map<string, Follower>(); // Check-ins sent by followers, by id
+    private pongWaiters = new Set<Follower>();
+    private tokenHash: Buffer;
+    // Replies the leader's own handshake received, replayed to followers
+    private helloOk: HelloOkMessage | null = null;
+    private config: ConfigMessage | null = null;
+    private authOk: AuthOkMessage | null = null;
+    private session: SessionMessage | null = null;
+    private onlineUsers: number | null = null;
+    private ready = false; // The leader has its history and can serve followers
+    private closed = false;
+    private _onOpen = new vscode.EventEmitter<void>();
+    private _onMessage = new vscode.EventEmitter<string>();
+    private _onClose = new vscode.EventEmitter<{ code: number, reason: string }>();
+    private _onError = new vscode.EventEmitter<Error>();
+    private _onPong = new vscode.EventEmitter<void>();
+
+    public readonly onOpen = this._onOpen.event;
+    public readonly onMessage = this._onMessage.event;
+    public readonly onClose = this._onClose.event;
+    public readonly onError = this._onError.event;
+    public readonly onPong = this._onPong.event;
+
+    constructor(
+        private readonly inner: Transport,
+        private readonly server: net.Server,
+        token: string,
+        private readonly getHistory: () => NewCheckInMessage[]
+    ) {
+        this.tokenHash = hashToken(token);
+
+        inner.onOpen(() => this._onOpen.fire());
+        inner.onMessage(data => this.handleServerFrame(data));
+        inner.onError(error => this._onError.fire(error));
+        inner.onPong(() => {
+            this.pongWaiters.forEach(follower => writeFrame(follower.socket, { kind: 'pong' }));
+            this.pongWaiters.clear();
+            this._onPong.fire();
+        });
+        inner.onClose(event => {
+            this.closeChannel();
+            this._onClose.fire(event);
+        });
+
+        server.on('connection', socket => this.addFollower(socket));
+        server.on('error', error => this.log.error('Shared connection channel error:', error));
+    }
+
+    /**
+     * Get the number of other windows using this connection
+     */
+    public getFollowerCount(): number {
+        return this.followers.size;
+    }
+
+    public isConnecting(): boolean {
+        return this.inner.isConnecting();
+    }
+
+    public isOpen(): boolean {
+        return this.inner.isOpen();
+    }
+
+    public send(data: string) {
+        this.inner.send(data);
+    }
+
+    public ping() {
+        this.inner.ping();
+    }
+
+    public close() {
+        this.inner.close();
+    }
+
+    public terminate() {
+        this.inner.terminate();
+    }
+
+    public dispose() {
+        this.inner.dispose();
+        this.closeChannel();
+
+        this._onOpen.dispose();
+        this._onMessage.dispose();
+        this._onClose.dispose();
+        this._onError.dispose();
+        this._onPong.dispose();
+    }
+
+    /**
+     * Stop serving the other windows; they will elect a new leader
+     */
+    private closeChannel() {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.server.close();
+        this.followers.forEach(follower => follower.socket.destroy());
+        this.followers.clear();
+        this.followerCheckIns.clear();
+        this.pongWaiters.clear();
+    }
+
+    private addFollower(socket: net.Socket) {
+        if (this.closed) {
+            socket.destroy();
+            return;
+        }
+
+        const follower: Follower = { socket, authenticated: false, waiting: [] };
+        this.followers.add(follower);
+        this.log.info(`Another window joined the shared connection (${this.followers.size} joined)`);
+
+        readFrames(socket, frame => this.handleFollowerFrame(follower, frame));
+        socket.on('error', () => { /* Reported as a close */ });
+        socket.on('close', () => {
+            if (this.closed) {
+                return;
+            }
+            this.followers.delete(follower);
+            this.pongWaiters.delete(follower);
+            this.log.info(`A window left the shared connection (${this.followers.size} joined)`);
+        });
+    }
+
+    private handleFollowerFrame(follower: Follower, frame: ChannelFrame) {
+        if (frame.kind === 'ping') {
+            // Measure the whole way to the server, not just to this window
+            this.pongWaiters.add(follower);
+            if (this.inner.isOpen()) {
+                this.inner.ping();
+            }
+            return;
+        }
+        if (frame.kind !== 'frame') {
+            return;
+        }
+
+        const parsed = parseMessage(frame.data);
+        if ('error' in parsed) {
+            this.log.warn(`Ignoring invalid frame from another window: ${parsed.error}`);
+            return;
+        }
+
+        if (this.ready) {
+            this.answerFollower(follower, parsed.message);
+        } else {
+            follower.waiting.push(parsed.message);
+        }
+    }
+
+    /**
+     * Answer a follower the way the server would
+     */
+    private answerFollower(follower: Follower, message: Message) {
+        // Like the server, only the handshake is answered before the follower proved it has the token
+        if (!follower.authenticated && message.type !== 'hello' && message.type !== 'auth') {
+            this.sendToFollower(follower, { type: 'error', message: 'Not authenticated' });
+            return;
+        }
+
+        switch (message.type) {
+            case 'hello':
+                // Servers that predate hello never answered ours, stay silent too
+                if (this.helloOk) {
+                    this.sendToFollower(follower, this.helloOk);
+                    if (this.config) {
+                        this.sendToFollower(follower, this.config);
+                    }
+                }
+                break;
+            case 'auth':
+                if (!crypto.timingSafeEqual(hashToken(message.token), this.tokenHash)) {
+                    this.sendToFollower(follower, { type: 'auth_failed', reason: 'invalid_token' });
+                    follower.socket.end();
+                    break;
+                }
+                this.sendToFollower(follower, this.authOk ?? { type: 'auth_ok' });
+                if (this.session) {
+                    this.sendToFollower(follower, this.session);
+                }
+                if (this.onlineUsers !== null) {
+                    this.sendToFollower(follower, { type: 'online_users', count: this.onlineUsers });
+                }
+                follower.authenticated = true;
+                break;
+            case 'history_request':
+                this.sendHistory(follower, message);
+                break;
+            case 'online_users_request':
+                if (this.onlineUsers !== null) {
+                    this.sendToFollower(follower, { type: 'online_users', count: this.onlineUsers });
+                }
+                break;
+            case 'checkin':
+                if (message.id && this.inner.isOpen()) {
+                    this.followerCheckIns.set(message.id, follower);
+                    this.inner.send(JSON.stringify(message));
+                }
+                break;
+        }
+    }
+
+    /**
+     * Serve a history request from what the leader has received
+     */
+    private sendHistory(follower: Follower, request: HistoryRequestMessage) {
+        const delta = request.sinceSeq !== undefined || request.since !== undefined;
+        const since = request.since ? new Date(request.since).getTime() : NaN;
+        const checkIns = this.getHistory().filter(checkIn => {
+            if (checkIn.pending) {
+                return false; // Our own, not delivered yet
+            }
+            if (request.sinceSeq !== undefined && typeof checkIn.seq === 'number') {
+                return checkIn.seq > request.sinceSeq;
+            }
+            return isNaN(since) || new Date(checkIn.timestamp).getTime() > since;
+        });
+
+        this.sendToFollower(follower, { type: 'history_start', count: checkIns.length, delta });
+        this.sendToFollower(follower, { type: 'history_batch', checkIns });
+        this.sendToFollower(follower, { type: 'history_end' });
+    }
+
+    /**
+     * Pass a server frame to the leader's client, remembering and relaying what followers need
+     */
+    private handleServerFrame(data: string) {
+        const parsed = parseMessage(data);
+        if ('error' in parsed) {
+            // The client counts and reports invalid frames
+            this._onMessage.fire(data);
+            return;
+        }
+
+        const message = parsed.message;
+        switch (message.type) {
+            case 'hello_ok':
+                this.helloOk = message;
+                break;
+            case 'config':
+                this.config = message;
+                this.broadcast(message);
+                break;
+            case 'auth_ok':
+                this.authOk = message;
+                break;
+            case 'session':
+                this.session = message;
+                break;
+            case 'online_users':
+                this.onlineUsers = message.count;
+                this.broadcast(message);
+                break;
+            case 'new_checkin':
+                this.broadcast(message);
+                break;
+            case 'checkin_ack':
+                // The cooldown applies to the person, so every window hears about it
+                this.followerCheckIns.delete(message.id);
+                this.broadcast(message);
+                break;
+            case 'checkin_rejected': {
+                const follower = this.followerCheckIns.get(message.id);
+                if (follower) {
+                    // Only the window that checked in is waiting for this
+                    this.followerCheckIns.delete(message.id);
+                    this.sendToFollower(follower, message);
+                    return;
+                }
+                break;
+            }
+        }
+
+        this._onMessage.fire(data);
+
+        // The client stores the history before this returns, followers can be served now
+        if (message.type === 'history_end' && !this.ready) {
+            this.ready = true;
+            this.followers.forEach(follower => {
+                const waiting = follower.waiting;
+                follower.waiting = [];
+                waiting.forEach(waitingMessage => this.answerFollower(follower, waitingMessage));
+            });
+        }
+    }
+
+    private sendToFollower(follower: Follower, message: Message) {
+        writeFrame(follower.socket, { kind: 'frame', data: JSON.stringify(message) });
+    }
+
+    private broadcast(message: Message) {
+        this.followers.forEach(follower => {
+            if (follower.authenticated) {
+                this.sendToFollower(follower, message);
+            }
+        });
+    }
+}
+
+/**
+ * Transport of a window that uses the connection held by another window
+ */
+export class FollowerTransport implements Transport {
+    private state: 'open' | 'closed' = 'open';
+    private handshakeTimer: NodeJS.Timeout | null = null; // Until the leader answers auth
+    private closeReason = { code: LEADER_GONE_CODE, reason: 'The window holding the connection went away' };
+    private _onOpen = new vscode.EventEmitter<void>();
+    private _onMessage = new vscode.EventEmitter<string>();
+    private _onClose = new vscode.EventEmitter<{ code: number, reason: string }>();
+    private _onError = new vscode.EventEmitter<Error>();
+    private _onPong = new vscode.EventEmitter<void>();
+
+    public readonly onOpen = this._onOpen.event;
+    public readonly onMessage = this._onMessage.event;
+    public readonly onClose = this._onClose.event;
+    public readonly onError = this._onError.event;
+    public readonly onPong = this._onPong.event;
+
+    /**
+     * @param socket Socket already connected to the leader's channel
+     */
+    constructor(private readonly socket: net.Socket) {
+        readFrames(socket, frame => {
+            if (frame.kind === 'frame') {
+                this.checkHandshake(frame.data);
+                this._onMessage.fire(frame.data);
+            } else if (frame.kind === 'pong') {
+                this._onPong.fire();
+            }
+        });
+        socket.on('error', error => this._onError.fire(error));
+        socket.on('close', () => {
+            this.state = 'closed';
+            this.clearHandshakeTimer();
+            this._onClose.fire(this.closeReason);
+        });
+
+        // The leader only answers once it has the history; a leader that never gets
+        // there would leave us authenticating forever, so give up and reconnect
+        this.handshakeTimer = setTimeout(() => {
+            this.handshakeTimer = null;
+            Logger.getInstance().warn('The window holding the shared connection did not answer in time');
+            this.closeReason = { code: HANDSHAKE_TIMEOUT_CODE, reason: 'The window holding the connection did not answer' };
+            this.socket.destroy();
+        }, FOLLOWER_HANDSHAKE_TIMEOUT_MS);
+
+        // Already connected; report it once listeners are attached
+        setTimeout(() => {
+            if (this.state === 'open') {
+                this._onOpen.fire();
+            }
+        }, 0);
+    }
+
+    public isConnecting(): boolean {
+        return false;
+    }
+
+    public isOpen(): boolean {
+        return this.state === 'open';
+    }
+
+    public send(data: string) {
+        if (this.state !== 'open') {
+            throw new Error('Shared connection is closed');
+        }
+        writeFrame(this.socket, { kind: 'frame', data });
+    }
+
+    public ping() {
+        writeFrame(this.socket, { kind: 'ping' });
+    }
+
+    public close() {
+        this.socket.end();
+    }
+
+    public terminate() {
+        this.socket.destroy();
+    }
+
+    public dispose() {
+        this.state = 'closed';
+        this.clearHandshakeTimer();
+        this.socket.removeAllListeners();
+        this.socket.on('error', () => { /* Ignore errors from the discarded socket */ });
+        this.socket.destroy();
+
+        this._onOpen.dispose();
+        this._onMessage.dispose();
+        this._onClose.dispose();
+        this._onError.dispose();
+        this._onPong.dispose();
+    }
+    /**
+     * Stop waiting once the leader answered our auth frame, either way
+     */
+    private checkHandshake(data: string) {
+        if (!this.handshakeTimer) {
+            return;
+        }
+        const parsed = parseMessage(data);
+        if (!('error' in parsed) && (parsed.message.type === 'auth_ok' || parsed.message.type === 'auth_failed')) {
+            this.clearHandshakeTimer();
+        }
+    }
+
+    private clearHandshakeTimer() {
+        if (this.handshakeTimer) {
+            clearTimeout(this.handshakeTimer);
+            this.handshakeTimer = null;
+        }
+    }
+}
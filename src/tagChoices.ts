@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import { normalizeTag } from './tagsUtils';
+import { Logger } from './logger';
+
+// Longest tag accepted from the user
+const MAX_TAG_LENGTH = 24;
+// Choices remembered per list; the oldest are forgotten first
+const MAX_REMEMBERED_TAGS = 20;
+
+/**
+ * A tag offered for a check-in
+ */
+export interface TagSuggestion {
+    tag: string;
+    selected: boolean; // Preselected for the check-in
+    detected: boolean; // Found in the user's files, rather than added by them
+}
+
+// What is kept in workspaceState
+interface StoredTagChoices {
+    added: string[]; // Tags the user added themselves
+    removed: string[]; // Detected tags the user turned down
+}
+
+/**
+ * Turn text typed by the user into a tag
+ * @returns the normalised tag, or why the text can't be one
+ */
+export function parseCustomTag(text: string): { tag: string } | { error: string } {
+    const tag = normalizeTag(text.trim().replace(/^#/, '').replace(/\s+/g, '-'));
+    if (!tag) {
+        return { error: 'Type a tag to add it' };
+    }
+    if (tag.length > MAX_TAG_LENGTH) {
+        return { error: `Tags can be at most ${MAX_TAG_LENGTH} characters long` };
+    }
+    if (!/^[a-z0-9][a-z0-9+#.-]*$/.test(tag)) {
+        return { error: 'Tags can only contain letters, digits and + # . -' };
+    }
+    return { tag };
+}
+
+/**
+ * Remembers, per workspace, the tags the user added and the detected tags they
+ * turned down, so the next check-in starts from their last choices
+ */
+export class TagChoices {
+    private static readonly STORAGE_KEY = 'yna.tagChoices';
+
+    /**
+     * @param storage Workspace memento the choices are kept in
+     */
+    constructor(private readonly storage: vscode.Memento) {}
+
+    /**
+     * Offer the detected tags and the user's own, preselecting up to maxTags:
+     * tags the user added first, then detected tags they haven't turned down
+     * @param detected Detected tags, best first
+     */
+    public getSuggestions(detected: string[], maxTags: number): TagSuggestion[] {
+        const { added, removed } = this.load();
+        const suggestions: TagSuggestion[] = [
+            ...added.map(tag => ({ tag, selected: true, detected: detected.includes(tag) })),
+            ...detected.filter(tag => !added.includes(tag)).map(tag => ({ tag, selected: !removed.includes(tag), detected: true }))
+        ];
+
+        let selectedCount = 0;
+        suggestions.forEach(suggestion => {
+            if (suggestion.selected) {
+                suggestion.selected = ++selectedCount <= maxTags;
+            }
+        });
+        return suggestions;
+    }
+
+    /**
+     * Remember the tags the user checked in with
+     * @param suggestions What the user was offered
+     * @param chosen Tags the user kept and added
+     */
+    public remember(suggestions: TagSuggestion[], chosen: string[]) {
+        const { removed } = this.load();
+        const detected = suggestions.filter(suggestion => suggestion.detected).map(suggestion => suggestion.tag);
+        const turnedDown = suggestions
+            .filter(suggestion => suggestion.detected && suggestion.selected && !chosen.includes(suggestion.tag))
+            .map(suggestion => suggestion.tag);
+
+        const choices: StoredTagChoices = {
+            added: chosen.filter(tag => !detected.includes(tag)).slice(-MAX_REMEMBERED_TAGS),
+            // Tags that weren't offered this time keep their earlier verdict
+            removed: [...new Set([...removed.filter(tag => !chosen.includes(tag)), ...turnedDown])].slice(-MAX_REMEMBERED_TAGS)
+        };
+        this.storage.update(TagChoices.STORAGE_KEY, choices).then(undefined, error => {
+            Logger.getInstance().error('Error saving tag choices:', error);
+        });
+    }
+
+    private load(): StoredTagChoices {
+        const stored = this.storage.get<Partial<StoredTagChoices>>(TagChoices.STORAGE_KEY, {});
+        return {
+            added: Array.isArray(stored.added) ? stored.added : [],
+            removed: Array.isArray(stored.removed) ? stored.removed : []
+        };
+    }
+}
+
+/**
+ * Check tags that came from outside the extension, e.g. the sidebar, and normalise them
+ * @returns the valid tags, without duplicates, limited to maxTags
+ */
+export function sanitizeTags(tags: unknown, maxTags: number): string[] {
+    if (!Array.isArray(tags)) {
+        return [];
+    }
+    const valid = tags
+        .filter((tag): tag is string => typeof tag === 'string')
+        .map(parseCustomTag)
+        .filter((parsed): parsed is { tag: string } => 'tag' in parsed)
+        .map(parsed => parsed.tag);
+    return [...new Set(valid)].slice(0, maxTags);
+}
+
+type TagItem = vscode.QuickPickItem & { tag: string };
+
+/**
+ * Let the user review the tags for a check-in: uncheck detected ones and type new ones
+ * @param notice Shown instead of the usual hint, e.g. that a privacy rule applies
+ * @returns the chosen tags, or undefined if the user cancelled
+ */
+export function pickTags(suggestions: TagSuggestion[], maxTags: number, notice?: string): Promise<string[] | undefined> {
+    return new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick<TagItem>();
+        const defaultTitle = `Tags for this check-in (up to ${maxTags})`;
+        quickPick.canSelectMany = true;
+        quickPick.title = defaultTitle;
+        quickPick.placeholder = notice ?? 'Uncheck tags to leave them out, or type to add your own';
+
+        const items: TagItem[] = suggestions.map(suggestion => ({
+            label: suggestion.tag,
+            description: suggestion.detected ? 'detected' : 'added by you',
+            tag: suggestion.tag
+        }));
+        let typedItem: TagItem | undefined; // The tag being typed, not yet part of the list
+        let selection = items.filter((_item, index) => suggestions[index].selected);
+        let accepted = false;
+
+        quickPick.items = items;
+        quickPick.selectedItems = selection;
+
+        quickPick.onDidChangeValue(value => {
+            typedItem = undefined;
+            quickPick.title = defaultTitle;
+
+            if (value.trim()) {
+                const parsed = parseCustomTag(value);
+                if ('error' in parsed) {
+                    quickPick.title = parsed.error;
+                } else if (!items.some(item => item.tag === parsed.tag)) {
+                    typedItem = { label: parsed.tag, description: 'new tag', tag: parsed.tag, alwaysShow: true };
+                }
+            }
+
+            quickPick.items = typedItem ? [typedItem, ...items] : items;
+            quickPick.selectedItems = selection;
+        });
+
+        quickPick.onDidChangeSelection(selected => {
+            if (selected.length > maxTags) {
+                // Undo the extra check
+                quickPick.title = `The server keeps up to ${maxTags} tags, uncheck one first`;
+                quickPick.selectedItems = selection;
+                return;
+            }
+
+            // A checked new tag becomes a regular entry
+            if (typedItem && selected.includes(typedItem)) {
+                typedItem.description = 'added by you';
+                items.unshift(typedItem);
+                typedItem = undefined;
+            }
+            selection = [...selected];
+        });
+
+        quickPick.onDidAccept(() => {
+            // Enter on a typed tag adds it without checking it first
+            if (typedItem && selection.length < maxTags) {
+                selection = [typedItem, ...selection];
+            }
+            accepted = true;
+            quickPick.hide();
+        });
+
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            resolve(accepted ? selection.map(item => item.tag) : undefined);
+        });
+
+        quickPick.show();
+    });
+}
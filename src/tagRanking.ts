@@ -0,0 +1,103 @@
+/**
+ * Ranks tags by how much the files that produce them were worked on recently.
+ * Like protocol.ts this module has no VS Code dependency, so it can be tested on its own.
+ */
+
+/**
+ * Activity recorded for a file. Only time and counts, never content.
+ */
+export interface FileActivity {
+    dwellMs: number; // Total time the file had focus
+    edits: number; // Number of edits made to it
+    score: number; // Decayed activity as of updatedAt
+    updatedAt: number; // When the score was last brought up to date (ms since epoch)
+}
+
+export interface RankingOptions {
+    halfLifeMs: number; // Activity loses half its weight after this long
+    editWeightMs: number; // How much focus time a single edit is worth
+}
+
+export const DEFAULT_RANKING_OPTIONS: RankingOptions = {
+    halfLifeMs: 60 * 60 * 1000,
+    editWeightMs: 1000
+};
+
+// A file's tags and its activity, if any was recorded
+export interface ScoredFile {
+    tags: string[];
+    activity?: FileActivity;
+    weight?: number; // Multiplies the file's score, 1 if omitted
+}
+
+export interface RankedTag {
+    tag: string;
+    score: number;
+}
+
+/**
+ * Get a file's activity score as of now
+ */
+export function getDecayedScore(activity: FileActivity, now: number, options: RankingOptions = DEFAULT_RANKING_OPTIONS): number {
+    const elapsedMs = Math.max(0, now - activity.updatedAt);
+    return activity.score * Math.pow(0.5, elapsedMs / options.halfLifeMs);
+}
+
+/**
+ * Add focus time and edits to a file's activity
+ * @param activity Activity so far, undefined for a file seen for the first time
+ * @returns the updated activity; the input is left untouched
+ */
+export function recordActivity(
+    activity: FileActivity | undefined,
+    change: { dwellMs?: number, edits?: number },
+    now: number,
+    options: RankingOptions = DEFAULT_RANKING_OPTIONS
+): FileActivity {
+    const dwellMs = Math.max(0, change.dwellMs ?? 0);
+    const edits = Math.max(0, change.edits ?? 0);
+    const previousScore = activity ? getDecayedScore(activity, now, options) : 0;
+
+    return {
+        dwellMs: (activity?.dwellMs ?? 0) + dwellMs,
+        edits: (activity?.edits ?? 0) + edits,
+        score: previousScore + dwellMs + edits * options.editWeightMs,
+        updatedAt: now
+    };
+}
+
+/**
+ * Combine two activities, e.g. of files of the same kind or of two sessions
+ * @returns the combined activity as of now; the inputs are left untouched
+ */
+export function combineActivity(
+    activity: FileActivity | undefined,
+    other: FileActivity,
+    now: number,
+    options: RankingOptions = DEFAULT_RANKING_OPTIONS
+): FileActivity {
+    return {
+        dwellMs: (activity?.dwellMs ?? 0) + other.dwellMs,
+        edits: (activity?.edits ?? 0) + other.edits,
+        score: (activity ? getDecayedScore(activity, now, options) : 0) + getDecayedScore(other, now, options),
+        updatedAt: now
+    };
+}
+
+/**
+ * Rank tags by the decayed activity of the files that produce them.
+ * A tag scores the sum of its files' weighted scores. Files without activity still contribute
+ * their tags, with a score of zero; ties keep the order the tags were first seen in.
+ */
+export function rankTags(files: ScoredFile[], now: number, options: RankingOptions = DEFAULT_RANKING_OPTIONS): RankedTag[] {
+    const scores = new Map<string, number>();
+    files.forEach(file => {
+        const score = file.activity ? getDecayedScore(file.activity, now, options) * (file.weight ?? 1) : 0;
+        new Set(file.tags).forEach(tag => {
+            scores.set(tag, (scores.get(tag) ?? 0) + score);
+        });
+    });
+
+    // Array.prototype.sort is stable, so equal scores stay in first-seen order
+    return Array.from(scores, ([tag, score]) => ({ tag, score })).sort((a, b) => b.score - a.score);
+}
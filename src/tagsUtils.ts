@@ -1,73 +1,314 @@
 import * as vscode from 'vscode';
 import { FileHistoryTracker } from './fileHistoryTracker';
+import { WorkspaceScanner } from './workspaceScanner';
+import { FileActivity, rankTags, ScoredFile, getDecayedScore } from './tagRanking';
+import { applyPrivacyRule, getActivePrivacyRule, getPrivacyRule } from './privacy';
+import { TrackingFilter } from './trackingFilter';
 import * as path from 'path';
 
+// File tags that say little about the work, ranked after everything else
+const LOW_SIGNAL_TAGS = new Set(['configuration', 'json', 'markdown']);
+// How much more the files of the workspace folder being worked in count
+const ACTIVE_FOLDER_WEIGHT = 2;
+
+// A file's tags, its activity and the workspace folder it belongs to
+interface AttributedFile {
+    tags: string[];
+    activity?: FileActivity;
+    folder?: vscode.WorkspaceFolder;
+    source: string; // What the tags came from, for "Why these tags?"
+}
+
+/**
+ * A detected tag and what it was detected from
+ */
+export interface TagSources {
+    tag: string;
+    sources: string[]; // Workspace-relative file paths, manifests or earlier sessions
+}
+
+// Map file extensions, or whole file names, to common frameworks/technologies
+const DEFAULT_EXTENSION_MAPPINGS: Record<string, string[]> = {
+    'js': ['javascript'],
+    'mjs': ['javascript'],
+    'cjs': ['javascript'],
+    'jsx': ['react'],
+    'tsx': ['react', 'typescript'],
+    'vue': ['vue'],
+    'svelte': ['svelte'],
+    'astro': ['astro'],
+    'ts': ['typescript'],
+    'mts': ['typescript'],
+    'cts': ['typescript'],
+    'py': ['python'],
+    'ipynb': ['jupyter', 'python'],
+    'rb': ['ruby'],
+    'php': ['php'],
+    'go': ['golang'],
+    'rs': ['rust'],
+    'zig': ['zig'],
+    'java': ['java'],
+    'cs': ['csharp', 'dotnet'],
+    'fs': ['fsharp', 'dotnet'],
+    'sql': ['database', 'sql'],
+    'dart': ['flutter', 'dart'],
+    'kt': ['kotlin'],
+    'swift': ['swift', 'ios'],
+    'scala': ['scala'],
+    'clj': ['clojure'],
+    'elm': ['elm'],
+    'ex': ['elixir'],
+    'hs': ['haskell'],
+    'r': ['r'],
+    'sol': ['solidity', 'web3'],
+    'tf': ['terraform', 'infrastructure'],
+    'tfvars': ['terraform', 'infrastructure'],
+    'dockerfile': ['docker'],
+    'toml': ['configuration'],
+    'yaml': ['configuration'],
+    'yml': ['configuration'],
+    'json': ['json'],
+    'md': ['markdown'],
+    'html': ['html'],
+    'css': ['css'],
+    'scss': ['scss', 'css'],
+    'less': ['less', 'css']
+};
+
+// Language ids and synonyms, and the tag they stand for
+const DEFAULT_TAG_ALIASES: Record<string, string> = {
+    'go': 'golang',
+    'typescriptreact': 'react',
+    'javascriptreact': 'react',
+    'js': 'javascript',
+    'ts': 'typescript',
+    'py': 'python',
+    'rb': 'ruby',
+    'rs': 'rust',
+    'cs': 'csharp',
+    'c#': 'csharp',
+    'shellscript': 'shell',
+    'bash': 'shell',
+    'jsonc': 'json',
+    'dockerfile': 'docker',
+    'jupyter-notebook': 'jupyter',
+    'vue-html': 'vue',
+    'objective-c': 'objc',
+    'k8s': 'kubernetes'
+};
+
 /**
- * Get tags based on all open files and recent file history
- * @returns Array of tags based on all open files and recent history, limited to max 3 tags
+ * Get tags based on the open files, recent file history and the workspace manifests.
+ * Files are weighed by how long they had focus and how much they were edited recently,
+ * so a quick look at another file doesn't push out the language actually worked in.
+ * In a multi-root workspace each file counts for the folder it belongs to, with its
+ * folder's yna.tags settings, and files of the folder being worked in weigh more.
+ * Activity from earlier sessions counts too, per kind of file, until it expires.
+ * Tags are ranked in this order, a tag found twice keeps its best rank:
+ * 1. the tag with the most recent activity
+ * 2. frameworks in the manifests of the active workspace folder
+ * 3. the other file tags, by recent activity; files without activity follow in the
+ *    order active editor, visible editors, recent files, earlier sessions
+ * 4. frameworks in the manifests of the other workspace folders, most active first
+ * 5. ecosystems of the manifests, e.g. nodejs for a package.json
+ * Low-signal tags such as json or markdown always come last.
+ * Files and folders covered by yna.privacy.workspaces only contribute what their rule allows,
+ * and the rule of the active workspace applies to the result.
+ * Files excluded from tracking by yna.tracking.exclude, files.exclude or .gitignore are skipped.
+ * @param maxTags Maximum number of tags to return, the server's limit
+ * @returns Array of tags, limited to maxTags
  */
-export function getActiveFileTags(): string[] {
-    const allTags: string[] = [];
+export function getActiveFileTags(maxTags: number = 3): string[] {
+    return explainActiveFileTags(maxTags).map(detected => detected.tag);
+}
+
+/**
+ * Get the tags getActiveFileTags returns, with the files and manifests each was detected from
+ * @param maxTags Maximum number of tags to return, the server's limit
+ */
+export function explainActiveFileTags(maxTags: number = 3): TagSources[] {
+    const fileTracker = FileHistoryTracker.getInstance();
+    const now = Date.now();
+    const files: AttributedFile[] = [];
     const processedFiles = new Set<string>();
+    const filter = TrackingFilter.getInstance();
     
-    // Process visible editors
-    const visibleEditors = vscode.window.visibleTextEditors;
-    
-    // Process all visible editors
-    visibleEditors.forEach(editor => {
-        const document = editor.document;
-        
-        // Skip non-file documents
-        if (document.uri.scheme !== 'file') {
+    const addFile = (filePath: string, languageId: string | null) => {
+        if (processedFiles.has(filePath) || filter.isExcluded(filePath)) {
             return;
         }
-        
-        const filePath = document.fileName;
         processedFiles.add(filePath);
-        
-        processFileForTags(filePath, document.languageId, allTags);
+        const tags = applyPrivacyRule(getFileTags(filePath, languageId), getPrivacyRule(filePath));
+        if (tags.length > 0) {
+            files.push({
+                tags,
+                activity: fileTracker.getActivity(filePath),
+                folder: fileTracker.getFolder(filePath),
+                source: vscode.workspace.asRelativePath(filePath)
+            });
+        }
+    };
+    
+    // The file being worked on, then the other visible editors
+    const activeEditor = vscode.window.activeTextEditor;
+    const editors = activeEditor ? [activeEditor, ...vscode.window.visibleTextEditors] : vscode.window.visibleTextEditors;
+    editors.forEach(editor => {
+        // Skip non-file documents
+        if (editor.document.uri.scheme === 'file') {
+            addFile(editor.document.fileName, editor.document.languageId);
+        }
     });
     
-    // Also process recent files from history
-    const fileTracker = FileHistoryTracker.getInstance();
-    const recentFiles = fileTracker.getRecentFiles();
+    // Also process recent files from history, most recent first.
+    // For files not currently open the tags come from the extension.
+    fileTracker.getRecentFiles().reverse().forEach(filePath => addFile(filePath, null));
     
-    recentFiles.forEach(filePath => {
-        // Skip files we already processed from visible editors
-        if (processedFiles.has(filePath)) {
-            return;
+    // Then what was worked on in earlier sessions, stored by extension rather than path
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    fileTracker.getPastActivity().forEach(record => {
+        const folder = workspaceFolders.find(candidate => candidate.name === record.folder);
+        const fileName = record.key.startsWith('.') ? `file${record.key}` : record.key;
+        const filePath = folder ? path.join(folder.uri.fsPath, fileName) : fileName;
+        const tags = applyPrivacyRule(getFileTags(filePath, null), getPrivacyRule(filePath));
+        if (tags.length > 0) {
+            const kind = record.key.startsWith('.') ? `${record.key} files` : record.key;
+            files.push({ tags, activity: record.activity, folder, source: `${kind} in earlier sessions` + (record.folder ? ` (${record.folder})` : '') });
         }
-        
-        // For files not currently open, try to determine language from extension
-        const fileExtension = path.extname(filePath).toLowerCase().replace('.', '');
-        processFileForTags(filePath, null, allTags);
     });
     
-    // Check for package.json to detect Node.js project
-    if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-        const packageJsonPath = vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, 'package.json');
-        try {
-            // This is async but we'll skip waiting for simplicity
-            vscode.workspace.fs.stat(packageJsonPath).then(
-                () => {
-                    if (!allTags.includes('nodejs')) {
-                        allTags.push('nodejs');
-                    }
-                },
-                () => { /* Ignore errors */ }
-            );
-        } catch {
-            // Ignore errors
+    // Workspace folders, the one being worked in first
+    const foldersByActivity = getFoldersByActivity(files, now);
+    const activeFolder = (activeEditor && vscode.workspace.getWorkspaceFolder(activeEditor.document.uri)) || foldersByActivity[0];
+    const otherFolders = foldersByActivity.filter(folder => folder !== activeFolder);
+    const foldersByRelevance = activeFolder ? [activeFolder, ...otherFolders] : otherFolders;
+    
+    const scoredFiles: ScoredFile[] = files.map(file => ({
+        tags: file.tags,
+        activity: file.activity,
+        weight: activeFolder && file.folder === activeFolder ? ACTIVE_FOLDER_WEIGHT : 1
+    }));
+    const fileTags = rankTags(scoredFiles, now).map(ranked => ranked.tag);
+    
+    // What each tag was detected from
+    const sources = new Map<string, string[]>();
+    const addSource = (tag: string, source: string) => {
+        const tagSources = sources.get(tag) ?? [];
+        if (!tagSources.includes(source)) {
+            tagSources.push(source);
         }
-    }
+        sources.set(tag, tagSources);
+    };
+    files.forEach(file => file.tags.forEach(tag => addSource(tag, file.source)));
     
-    // Remove duplicates
-    const uniqueTags = [...new Set(allTags)];
+    // Frameworks detected from manifests, cached by the scanner, named with each folder's aliases
+    const scanner = WorkspaceScanner.getInstance();
+    const getFolderTags = (folder: vscode.WorkspaceFolder, kind: 'frameworks' | 'ecosystems') => {
+        const tags = applyPrivacyRule(
+            scanner.getTags(folder)[kind].map(tag => normalizeTag(tag, folder.uri)),
+            getPrivacyRule(folder.uri.fsPath)
+        );
+        tags.forEach(tag => addSource(tag, `manifests of ${folder.name}`));
+        return tags;
+    };
     
-    // Limit to maximum 3 tags
-    const limitedTags = uniqueTags.slice(0, 3);
+    const rankedTags = [
+        ...fileTags.slice(0, 1),
+        ...(activeFolder ? getFolderTags(activeFolder, 'frameworks') : []),
+        ...fileTags.slice(1),
+        ...otherFolders.flatMap(folder => getFolderTags(folder, 'frameworks')),
+        ...foldersByRelevance.flatMap(folder => getFolderTags(folder, 'ecosystems'))
+    ];
     
-    return limitedTags;
+    // Remove duplicates, keeping the best rank; tags were aliased with their folder's settings
+    const uniqueTags = [...new Set(rankedTags)];
+    const orderedTags = [
+        ...uniqueTags.filter(tag => !LOW_SIGNAL_TAGS.has(tag)),
+        ...uniqueTags.filter(tag => LOW_SIGNAL_TAGS.has(tag))
+    ];
+    
+    // Apply the active workspace's rule, a tag it replaces passes its sources on
+    const activeRule = getActivePrivacyRule();
+    const detected = new Map<string, TagSources>();
+    orderedTags.forEach(tag => applyPrivacyRule([tag], activeRule).forEach(shownTag => {
+        const entry = detected.get(shownTag) ?? { tag: shownTag, sources: [] };
+        (sources.get(tag) ?? []).filter(source => !entry.sources.includes(source)).forEach(source => entry.sources.push(source));
+        detected.set(shownTag, entry);
+    }));
+    
+    // Limit to the maximum number of tags
+    return Array.from(detected.values()).slice(0, maxTags);
+}
+
+/**
+ * Order the workspace folders by the recent activity of their files; ties keep the workspace order
+ */
+function getFoldersByActivity(files: AttributedFile[], now: number): vscode.WorkspaceFolder[] {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const activity = new Map<vscode.WorkspaceFolder, number>();
+    files.forEach(file => {
+        if (file.folder && file.activity) {
+            activity.set(file.folder, (activity.get(file.folder) ?? 0) + getDecayedScore(file.activity, now));
+        }
+    });
+    return [...folders].sort((a, b) => (activity.get(b) ?? 0) - (activity.get(a) ?? 0));
+}
+
+/**
+ * Get the tags a single file produces, after aliases are applied.
+ * The yna.tags settings of the file's workspace folder apply.
+ * @param filePath Path of the file
+ * @param languageId Language of the open document, or null if the file isn't open
+ */
+export function getFileTags(filePath: string, languageId: string | null): string[] {
+    const scope = vscode.Uri.file(filePath);
+    const tags: string[] = [];
+    processFileForTags(filePath, languageId, tags);
+    return [...new Set(tags.map(tag => normalizeTag(tag, scope)))];
+}
+
+/**
+ * Bring a tag to its canonical name using yna.tags.aliases and the built-in aliases,
+ * e.g. go becomes golang and typescriptreact becomes react
+ * @param scope File or folder whose settings apply, the workspace's if omitted
+ */
+export function normalizeTag(tag: string, scope?: vscode.ConfigurationScope): string {
+    const configured = lowerCaseKeys(vscode.workspace.getConfiguration('yna.tags', scope).get<Record<string, string>>('aliases', {}));
+    const userAlias = (name: string) => {
+        const alias = configured[name];
+        return typeof alias === 'string' && alias.trim() ? alias.trim().toLowerCase() : undefined;
+    };
+    
+    const normalized = tag.trim().toLowerCase();
+    const aliased = userAlias(normalized) ?? DEFAULT_TAG_ALIASES[normalized] ?? normalized;
+    // User aliases also rename what the built-in ones produce
+    return userAlias(aliased) ?? aliased;
+}
+
+/**
+ * Get the extension mappings: the built-in table, extended and overridden by yna.tags.mappings
+ * @param scope File or folder whose settings apply
+ */
+function getExtensionMappings(scope: vscode.ConfigurationScope): Record<string, string[]> {
+    const configured = vscode.workspace.getConfiguration('yna.tags', scope).get<Record<string, string[]>>('mappings', {});
+    const mappings: Record<string, string[]> = { ...DEFAULT_EXTENSION_MAPPINGS };
+    Object.entries(lowerCaseKeys(configured)).forEach(([key, tags]) => {
+        // An empty list turns a built-in mapping off
+        if (Array.isArray(tags)) {
+            mappings[key.replace(/^\./, '')] = tags.filter(tag => typeof tag === 'string' && tag.trim().length > 0);
+        }
+    });
+    return mappings;
+}
+
+/**
+ * Settings keys are matched case-insensitively
+ */
+function lowerCaseKeys<T>(record: Record<string, T>): Record<string, T> {
+    const result: Record<string, T> = {};
+    Object.entries(record ?? {}).forEach(([key, value]) => {
+        result[key.toLowerCase()] = value;
+    });
+    return result;
 }
 
 /**
@@ -79,47 +320,12 @@ function processFileForTags(filePath: string, languageId: string | null, allTags
         allTags.push(languageId);
     }
     
-    // Add file extension-based tags
+    // Add tags mapped from the extension, or from the whole name for files like Dockerfile
+    const mappings = getExtensionMappings(vscode.Uri.file(filePath));
     const fileExtension = path.extname(filePath).toLowerCase().replace('.', '');
-    if (fileExtension) {
-        // Map file extensions to common frameworks/technologies
-        const extensionMappings: Record<string, string[]> = {
-            'jsx': ['react'],
-            'tsx': ['react', 'typescript'],
-            'vue': ['vue'],
-            'svelte': ['svelte'],
-            'ts': ['typescript'],
-            'py': ['python'],
-            'rb': ['ruby'],
-            'php': ['php'],
-            'go': ['golang'],
-            'rs': ['rust'],
-            'java': ['java'],
-            'cs': ['csharp', 'dotnet'],
-            'fs': ['fsharp', 'dotnet'],
-            'sql': ['database', 'sql'],
-            'dart': ['flutter', 'dart'],
-            'kt': ['kotlin'],
-            'swift': ['swift', 'ios'],
-            'scala': ['scala'],
-            'clj': ['clojure'],
-            'elm': ['elm'],
-            'ex': ['elixir'],
-            'hs': ['haskell'],
-            'r': ['r'],
-            'toml': ['configuration'],
-            'yaml': ['configuration'],
-            'yml': ['configuration'],
-            'json': ['json'],
-            'md': ['markdown'],
-            'html': ['html'],
-            'css': ['css'],
-            'scss': ['scss', 'css'],
-            'less': ['less', 'css']
-        };
-        
-        if (extensionMappings[fileExtension]) {
-            allTags.push(...extensionMappings[fileExtension]);
-        }
+    const fileName = path.basename(filePath).toLowerCase();
+    const mapped = (fileExtension && mappings[fileExtension]) || mappings[fileName];
+    if (mapped) {
+        allTags.push(...mapped);
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,19 @@
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+/**
+ * Download VS Code and run the test suite inside it
+ */
+async function main() {
+    try {
+        // Compiled to out/src/test, three levels below the extension
+        const extensionDevelopmentPath = path.resolve(__dirname, '../../../');
+        const extensionTestsPath = path.resolve(__dirname, './suite/index');
+        await runTests({ extensionDevelopmentPath, extensionTestsPath });
+    } catch (error) {
+        console.error('Failed to run tests:', error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,156 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import WebSocket from 'ws';
+import { CheckInServer, CheckInServerOptions } from '../../../server/checkInServer';
+import { CheckInMessage, Message, SessionMessage, getSigningPayload } from '../../protocol';
+
+const PORT = 18787;
+
+const OPTIONS: CheckInServerOptions = {
+    port: PORT,
+    authMode: 'dev',
+    cooldownMinutes: 10,
+    historySize: 100,
+    maxMessageLength: 42,
+    maxTags: 3,
+    minProtocolVersion: 1
+};
+
+/**
+ * A connection to the reference server that keeps every frame it receives
+ */
+class TestClient {
+    private received: Message[] = [];
+    private waiters: (() => void)[] = [];
+    public session?: SessionMessage;
+
+    private constructor(private readonly socket: WebSocket) {
+        socket.on('message', data => {
+            this.received.push(JSON.parse(data.toString()) as Message);
+            this.waiters.splice(0).forEach(wake => wake());
+        });
+    }
+
+    /**
+     * Connect and sign in, with dev auth any token is accepted
+     */
+    public static async connect(): Promise<TestClient> {
+        const socket = new WebSocket(`ws://localhost:${PORT}`);
+        await new Promise(resolve => socket.once('open', resolve));
+        const client = new TestClient(socket);
+        client.send({ type: 'auth', token: 'dev-token' });
+        client.session = await client.next('session') as SessionMessage;
+        return client;
+    }
+
+    public send(message: Message) {
+        this.socket.send(JSON.stringify(message));
+    }
+
+    /**
+     * Sign a check-in for this connection, like WebSocketClient does
+     */
+    public sign(checkIn: CheckInMessage, signatureTimestamp = String(Date.now())): CheckInMessage {
+        const session = this.session!;
+        const signature = crypto.createHmac('sha256', session.key)
+            .update(getSigningPayload(checkIn, signatureTimestamp, session.nonce))
+            .digest('hex');
+        return { ...checkIn, signature, signatureTimestamp, nonce: session.nonce };
+    }
+
+    /**
+     * Wait for the next frame of a type, taking it out of what was received
+     */
+    public async next<T extends Message['type']>(type: T): Promise<Extract<Message, { type: T }>> {
+        for (;;) {
+            const index = this.received.findIndex(message => message.type === type);
+            if (index !== -1) {
+                return this.received.splice(index, 1)[0] as Extract<Message, { type: T }>;
+            }
+            await new Promise<void>(resolve => this.waiters.push(resolve));
+        }
+    }
+
+    public close(): Promise<void> {
+        return new Promise(resolve => {
+            if (this.socket.readyState === WebSocket.CLOSED) {
+                resolve();
+                return;
+            }
+            this.socket.once('close', () => resolve());
+            this.socket.close();
+        });
+    }
+}
+
+function createCheckIn(id: string): CheckInMessage {
+    return { type: 'checkin', id, username: 'octocat', tags: ['typescript'], message: 'Hello', timestamp: new Date().toISOString() };
+}
+
+suite('CheckInServer', () => {
+    let server: CheckInServer;
+    const clients: TestClient[] = [];
+
+    const connect = async () => {
+        const client = await TestClient.connect();
+        clients.push(client);
+        return client;
+    };
+
+    setup(async () => {
+        server = new CheckInServer(OPTIONS);
+        await server.start();
+    });
+
+    teardown(async () => {
+        await Promise.all(clients.splice(0).map(client => client.close()));
+        await server.stop();
+    });
+
+    test('fails to start when the port is taken', async () => {
+        const other = new CheckInServer(OPTIONS);
+        await assert.rejects(other.start(), /EADDRINUSE/);
+    });
+
+    test('acknowledges a check-in resent after a reconnect without storing it twice', async () => {
+        const first = await connect();
+        first.send(first.sign(createCheckIn('a')));
+        assert.strictEqual((await first.next('checkin_ack')).id, 'a');
+        await first.close();
+
+        // The resend is signed for the new connection, and not held to the cooldown
+        const second = await connect();
+        second.send(second.sign(createCheckIn('a')));
+        assert.strictEqual((await second.next('checkin_ack')).id, 'a');
+
+        second.send({ type: 'history_request' });
+        assert.strictEqual((await second.next('history_start')).count, 1);
+    });
+
+    test('rejects a check-in with a bad signature', async () => {
+        const client = await connect();
+        const signed = client.sign(createCheckIn('a'));
+        client.send({ ...signed, message: 'Tampered' });
+
+        const rejected = await client.next('checkin_rejected');
+        assert.strictEqual(rejected.id, 'a');
+        assert.strictEqual(rejected.reason, 'Invalid check-in signature');
+    });
+
+    test('rejects a replayed check-in frame', async () => {
+        const client = await connect();
+        const signed = client.sign(createCheckIn('a'));
+        client.send(signed);
+        await client.next('checkin_ack');
+
+        client.send(signed);
+        assert.strictEqual((await client.next('checkin_rejected')).reason, 'Check-in signature was already used');
+    });
+
+    test('rejects a check-in signed for another connection', async () => {
+        const first = await connect();
+        const second = await connect();
+        second.send(first.sign(createCheckIn('a')));
+        assert.strictEqual((await second.next('checkin_rejected')).reason, 'Check-in is not signed for this connection');
+    });
+});
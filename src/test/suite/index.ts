@@ -0,0 +1,17 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import Mocha from 'mocha';
+
+/**
+ * Entry point VS Code calls to run the tests: every *.test.js file next to this one
+ */
+export function run(): Promise<void> {
+    const mocha = new Mocha({ ui: 'tdd', color: true, timeout: 10000 });
+    fs.readdirSync(__dirname)
+        .filter(file => file.endsWith('.test.js'))
+        .forEach(file => mocha.addFile(path.join(__dirname, file)));
+
+    return new Promise((resolve, reject) => {
+        mocha.run(failures => failures > 0 ? reject(new Error(`${failures} tests failed`)) : resolve());
+    });
+}
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { OutboundQueue } from '../../outboundQueue';
+import { CheckInMessage } from '../../webSocketClient';
+
+/**
+ * globalState as every window sees it
+ */
+class SharedMemento implements vscode.Memento {
+    private values = new Map<string, unknown>();
+
+    public keys(): readonly string[] {
+        return Array.from(this.values.keys());
+    }
+
+    public get<T>(key: string, defaultValue?: T): T | undefined {
+        // Each window reads its own copy
+        return this.values.has(key) ? JSON.parse(JSON.stringify(this.values.get(key))) as T : defaultValue;
+    }
+
+    public update(key: string, value: unknown): Thenable<void> {
+        this.values.set(key, value);
+        return Promise.resolve();
+    }
+}
+
+function createCheckIn(id: string): CheckInMessage {
+    return { type: 'checkin', id, username: 'octocat', tags: [], message: 'Hello', timestamp: new Date().toISOString() };
+}
+
+function ids(queue: OutboundQueue): (string | undefined)[] {
+    return queue.claim().map(entry => entry.checkIn.id);
+}
+
+suite('OutboundQueue', () => {
+    let storage: SharedMemento;
+    let first: OutboundQueue;
+    let second: OutboundQueue;
+
+    setup(() => {
+        storage = new SharedMemento();
+        first = new OutboundQueue(storage, 'first-window');
+        second = new OutboundQueue(storage, 'second-window');
+    });
+
+    test('two windows flushing the same queue send each check-in once', () => {
+        first.enqueue(createCheckIn('a'));
+        second.enqueue(createCheckIn('b'));
+
+        assert.deepStrictEqual(ids(first), ['a']);
+        assert.deepStrictEqual(ids(second), ['b']);
+        // Both windows still see both check-ins as queued
+        assert.strictEqual(first.getAll().length, 2);
+        assert.ok(second.has('a'));
+    });
+
+    test('check-ins of a closed window are sent by the next window to flush', () => {
+        first.enqueue(createCheckIn('a'));
+        first.release();
+
+        assert.deepStrictEqual(ids(second), ['a']);
+        assert.deepStrictEqual(ids(first), []);
+    });
+
+    test('check-ins of a window whose claim lapsed are taken over', () => {
+        first.enqueue(createCheckIn('a'));
+        const entries = storage.get<{ claimedAt: number }[]>('yna.outboundQueue', [])!;
+        entries[0].claimedAt = Date.now() - 60 * 60 * 1000;
+        storage.update('yna.outboundQueue', entries);
+
+        assert.deepStrictEqual(ids(second), ['a']);
+        assert.deepStrictEqual(ids(first), []);
+    });
+
+    test('an acknowledged check-in leaves the queue of every window', () => {
+        first.enqueue(createCheckIn('a'));
+        assert.ok(second.remove('a'));
+        assert.deepStrictEqual(ids(first), []);
+    });
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { PrivacyRule, applyPrivacyRule } from '../../privacy';
+
+const GENERIC: PrivacyRule = { path: 'client-work', mode: 'generic' };
+const LABEL: PrivacyRule = { path: 'client-work', mode: 'label', label: 'Client Work' };
+const EXCLUDE: PrivacyRule = { path: 'client-work', mode: 'exclude' };
+
+suite('applyPrivacyRule', () => {
+    test('replaces tags with the broad area they belong to', () => {
+        assert.deepStrictEqual(applyPrivacyRule(['swift', 'ios', 'react'], GENERIC), ['mobile', 'frontend']);
+        assert.deepStrictEqual(applyPrivacyRule(['brainfuck'], GENERIC), ['coding']);
+    });
+
+    test('gives the same result when applied twice', () => {
+        // Tags go through the rule per file, for the active workspace and again when sent
+        [GENERIC, LABEL, EXCLUDE].forEach(rule => {
+            [['swift', 'ios', 'react'], ['rust', 'sql', 'json'], ['brainfuck', 'docker'], []].forEach(tags => {
+                const once = applyPrivacyRule(tags, rule);
+                assert.deepStrictEqual(applyPrivacyRule(once, rule), once, `${rule.mode} rule on ${tags.join(', ')}`);
+            });
+        });
+    });
+
+    test('shows the label or nothing for the stricter modes', () => {
+        assert.deepStrictEqual(applyPrivacyRule(['swift'], LABEL), ['client-work']);
+        assert.deepStrictEqual(applyPrivacyRule(['swift'], EXCLUDE), []);
+    });
+
+    test('leaves tags alone without a rule', () => {
+        assert.deepStrictEqual(applyPrivacyRule(['swift', 'ios'], undefined), ['swift', 'ios']);
+    });
+});
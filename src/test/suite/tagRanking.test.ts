@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { FileActivity, RankingOptions, rankTags, recordActivity, getDecayedScore, combineActivity } from '../../tagRanking';
+
+const HOUR = 60 * 60 * 1000;
+const OPTIONS: RankingOptions = { halfLifeMs: HOUR, editWeightMs: 1000 };
+const NOW = Date.UTC(2026, 0, 1);
+
+function activity(score: number, updatedAt = NOW): FileActivity {
+    return { dwellMs: score, edits: 0, score, updatedAt };
+}
+
+function approximately(actual: number, expected: number) {
+    assert.ok(Math.abs(actual - expected) < 1e-6, `expected ${actual} to be ${expected}`);
+}
+
+suite('tagRanking', () => {
+    suite('getDecayedScore', () => {
+        test('halves the score every half-life', () => {
+            approximately(getDecayedScore(activity(800), NOW + HOUR, OPTIONS), 400);
+            approximately(getDecayedScore(activity(800), NOW + 3 * HOUR, OPTIONS), 100);
+        });
+
+        test('does not grow for timestamps in the future', () => {
+            approximately(getDecayedScore(activity(800, NOW + HOUR), NOW, OPTIONS), 800);
+        });
+    });
+
+    suite('recordActivity', () => {
+        test('counts focus time and weighs edits', () => {
+            const recorded = recordActivity(undefined, { dwellMs: 5000, edits: 2 }, NOW, OPTIONS);
+            assert.deepStrictEqual(recorded, { dwellMs: 5000, edits: 2, score: 7000, updatedAt: NOW });
+        });
+
+        test('decays the earlier score before adding to it', () => {
+            const earlier = recordActivity(undefined, { dwellMs: 4000 }, NOW, OPTIONS);
+            const later = recordActivity(earlier, { edits: 1 }, NOW + HOUR, OPTIONS);
+            approximately(later.score, 2000 + 1000);
+            assert.strictEqual(later.dwellMs, 4000);
+            assert.strictEqual(later.updatedAt, NOW + HOUR);
+        });
+
+        test('leaves the input untouched and ignores negative changes', () => {
+            const earlier = activity(1000);
+            const recorded = recordActivity(earlier, { dwellMs: -500, edits: -1 }, NOW, OPTIONS);
+            assert.deepStrictEqual(earlier, activity(1000));
+            assert.strictEqual(recorded.score, 1000);
+        });
+    });
+
+    suite('combineActivity', () => {
+        test('adds decayed scores as of now', () => {
+            const combined = combineActivity(activity(1000), activity(800, NOW - HOUR), NOW, OPTIONS);
+            approximately(combined.score, 1400);
+            assert.strictEqual(combined.updatedAt, NOW);
+        });
+    });
+
+    suite('rankTags', () => {
+        test('orders tags by the activity of their files', () => {
+            const ranked = rankTags([
+                { tags: ['markdown'], activity: activity(100) },
+                { tags: ['typescript'], activity: activity(500) },
+                { tags: ['css'], activity: activity(300) }
+            ], NOW, OPTIONS);
+            assert.deepStrictEqual(ranked.map(entry => entry.tag), ['typescript', 'css', 'markdown']);
+        });
+
+        test('sums the scores of files sharing a tag, once per file', () => {
+            const ranked = rankTags([
+                { tags: ['react', 'react'], activity: activity(300) },
+                { tags: ['react'], activity: activity(300) },
+                { tags: ['python'], activity: activity(500) }
+            ], NOW, OPTIONS);
+            assert.deepStrictEqual(ranked, [{ tag: 'react', score: 600 }, { tag: 'python', score: 500 }]);
+        });
+
+        test('lets recent work outrank more work long ago', () => {
+            const ranked = rankTags([
+                { tags: ['rust'], activity: activity(4000, NOW - 4 * HOUR) },
+                { tags: ['golang'], activity: activity(1000) }
+            ], NOW, OPTIONS);
+            assert.deepStrictEqual(ranked.map(entry => entry.tag), ['golang', 'rust']);
+        });
+
+        test('applies file weights', () => {
+            const ranked = rankTags([
+                { tags: ['vue'], activity: activity(300) },
+                { tags: ['svelte'], activity: activity(200), weight: 2 }
+            ], NOW, OPTIONS);
+            assert.deepStrictEqual(ranked.map(entry => entry.tag), ['svelte', 'vue']);
+        });
+
+        test('keeps first-seen order for ties and files without activity', () => {
+            const ranked = rankTags([
+                { tags: ['html'] },
+                { tags: ['scss'], activity: activity(200) },
+                { tags: ['json'] },
+                { tags: ['less'], activity: activity(200) }
+            ], NOW, OPTIONS);
+            assert.deepStrictEqual(ranked.map(entry => entry.tag), ['scss', 'less', 'html', 'json']);
+        });
+    });
+});
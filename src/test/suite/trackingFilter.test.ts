@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { compileGlob } from '../../trackingFilter';
+
+suite('compileGlob', () => {
+    test('matches globs against paths relative to the folder', () => {
+        const pattern = compileGlob('**/node_modules/**')!;
+        assert.ok(pattern.test('node_modules/left-pad/index.js'));
+        assert.ok(pattern.test('packages/app/node_modules/a.js'));
+        assert.ok(!pattern.test('src/node_modules.ts'));
+        assert.ok(compileGlob('**/*.{tmp,bak}')!.test('a/b.bak'));
+        assert.ok(compileGlob('src/[abc].ts')!.test('src/b.ts'));
+    });
+
+    test('takes a bracket without a partner literally', () => {
+        const pattern = compileGlob('foo[bar');
+        assert.ok(pattern, 'foo[bar compiles');
+        assert.ok(pattern.test('foo[bar'));
+        assert.ok(!pattern.test('foob'));
+        assert.ok(compileGlob('**/foo]bar')!.test('a/foo]bar'));
+        assert.ok(compileGlob('foo{bar')!.test('foo{bar'));
+    });
+
+    test('skips a glob that cannot be compiled', () => {
+        assert.strictEqual(compileGlob('[z-a].ts'), undefined);
+    });
+});
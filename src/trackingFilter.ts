@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from './logger';
+
+// A compiled pattern; later rules override earlier ones, like in a .gitignore
+interface IgnoreRule {
+    pattern: RegExp;
+    negated: boolean;
+}
+
+// Paths are compared case-insensitively where the file system usually is
+const CASE_INSENSITIVE = process.platform === 'win32' || process.platform === 'darwin';
+
+/**
+ * Turn a glob into a regular expression source.
+ * Supports *, **, ?, {a,b} and [abc], which covers files.exclude and .gitignore patterns.
+ */
+function globToSource(glob: string): string {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // Any number of path segments, including none
+                const slashFollows = glob[i + 2] === '/';
+                source += slashFollows ? '(?:.*/)?' : '.*';
+                i += slashFollows ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{' && glob.indexOf('}', i) > i) {
+            const end = glob.indexOf('}', i);
+            source += `(?:${glob.slice(i + 1, end).split(',').map(globToSource).join('|')})`;
+            i = end;
+        } else if (char === '[' && glob.indexOf(']', i) > i) {
+            const end = glob.indexOf(']', i);
+            source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+            i = end;
+        } else {
+            // Including brackets and braces without a partner, taken literally
+            source += char.replace(/[.+^$()|\\[\]{}]/g, '\\$&');
+        }
+    }
+    return source;
+}
+
+/**
+ * Compile a glob matched against whole paths relative to a folder
+ * @returns the pattern, or undefined for a glob that can't be compiled, e.g. with a range like [z-a]
+ */
+export function compileGlob(glob: string): RegExp | undefined {
+    try {
+        return new RegExp(`^${globToSource(glob.replace(/^\.?\//, ''))}$`, CASE_INSENSITIVE ? 'i' : '');
+    } catch (error) {
+        Logger.getInstance().warn(`Ignoring invalid exclude pattern ${glob}:`, error);
+        return undefined;
+    }
+}
+
+function isPattern(pattern: RegExp | undefined): pattern is RegExp {
+    return pattern !== undefined;
+}
+
+/**
+ * Compile the lines of a .gitignore file. A pattern without a slash matches at any depth,
+ * one with a slash is anchored to the folder, and matching a directory covers everything in it.
+ */
+function compileGitignore(content: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    content.split(/\r?\n/).forEach(line => {
+        let pattern = line.trim();
+        if (!pattern || pattern.startsWith('#')) {
+            return;
+        }
+
+        const negated = pattern.startsWith('!');
+        pattern = pattern.replace(/^!/, '').replace(/^\\/, '').replace(/\/$/, '');
+        if (!pattern) {
+            return;
+        }
+        const anchored = pattern.includes('/');
+        const glob = anchored ? pattern.replace(/^\//, '') : `**/${pattern}`;
+        const compiled = compileGlob(`{${glob},${glob}/**}`);
+        if (compiled) {
+            rules.push({ pattern: compiled, negated });
+        }
+    });
+    return rules;
+}
+
+function isIgnored(rules: IgnoreRule[], relativePath: string): boolean {
+    let ignored = false;
+    rules.forEach(rule => {
+        if (rule.pattern.test(relativePath)) {
+            ignored = !rule.negated;
+        }
+    });
+    return ignored;
+}
+
+/**
+ * Decides which files are left out of activity tracking: those matching yna.tracking.exclude,
+ * files.exclude, or the .gitignore at the root of their workspace folder.
+ * Patterns are compiled once and refreshed when the settings or a .gitignore change.
+ */
+export class TrackingFilter implements vscode.Disposable {
+    private static instance: TrackingFilter;
+    private log = Logger.getInstance();
+    private trackingExclude: RegExp[] = [];
+    private filesExclude = new Map<string, RegExp[]>(); // By workspace folder URI
+    private gitignores = new Map<string, IgnoreRule[]>(); // By workspace folder URI
+    private watchers = new Map<string, vscode.FileSystemWatcher>();
+    private disposables: vscode.Disposable[] = [];
+    private _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event; // Fires when the patterns change
+
+    private constructor() {
+        this.loadSettings();
+        (vscode.workspace.workspaceFolders ?? []).forEach(folder => this.addFolder(folder));
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('yna.tracking.exclude') || event.affectsConfiguration('files.exclude')) {
+                    this.loadSettings();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(event => {
+                event.removed.forEach(folder => this.removeFolder(folder));
+                event.added.forEach(folder => this.addFolder(folder));
+                this.loadSettings();
+            })
+        );
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): TrackingFilter {
+        if (!TrackingFilter.instance) {
+            TrackingFilter.instance = new TrackingFilter();
+        }
+        return TrackingFilter.instance;
+    }
+
+    /**
+     * Check whether a file is left out of activity tracking
+     * @param filePath Absolute path of the file
+     */
+    public isExcluded(filePath: string): boolean {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        const folderPath = folder ? path.relative(folder.uri.fsPath, filePath) : filePath;
+        // Files outside the workspace are matched on their whole path, so **/ patterns still apply
+        const relativePath = folderPath.split(path.sep).join('/').replace(/^[a-zA-Z]:/, '').replace(/^\/+/, '');
+
+        if (this.trackingExclude.some(pattern => pattern.test(relativePath))) {
+            return true;
+        }
+        if (!folder) {
+            return false;
+        }
+        const key = folder.uri.toString();
+        return (this.filesExclude.get(key) ?? []).some(pattern => pattern.test(relativePath))
+            || isIgnored(this.gitignores.get(key) ?? [], relativePath);
+    }
+
+    public dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers.clear();
+        this._onDidChange.dispose();
+    }
+
+    private loadSettings() {
+        const globs = vscode.workspace.getConfiguration('yna.tracking').get<string[]>('exclude', []);
+        this.trackingExclude = (Array.isArray(globs) ? globs : [])
+            .filter(glob => typeof glob === 'string' && glob.trim().length > 0)
+            .map(glob => compileGlob(glob.trim()))
+            .filter(isPattern);
+
+        // files.exclude can differ per folder; entries with a when clause are skipped
+        this.filesExclude.clear();
+        (vscode.workspace.workspaceFolders ?? []).forEach(folder => {
+            const excluded = vscode.workspace.getConfiguration('files', folder.uri).get<Record<string, unknown>>('exclude', {});
+            this.filesExclude.set(folder.uri.toString(), Object.entries(excluded ?? {})
+                .filter(([, enabled]) => enabled === true)
+                .map(([glob]) => compileGlob(glob))
+                .filter(isPattern));
+        });
+        this._onDidChange.fire();
+    }
+
+    private addFolder(folder: vscode.WorkspaceFolder) {
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '.gitignore'));
+        const reload = () => this.loadGitignore(folder);
+        watcher.onDidCreate(reload);
+        watcher.onDidChange(reload);
+        watcher.onDidDelete(reload);
+        this.watchers.set(folder.uri.toString(), watcher);
+        this.loadGitignore(folder);
+    }
+
+    private removeFolder(folder: vscode.WorkspaceFolder) {
+        const key = folder.uri.toString();
+        this.watchers.get(key)?.dispose();
+        this.watchers.delete(key);
+        this.gitignores.delete(key);
+    }
+
+    private async loadGitignore(folder: vscode.WorkspaceFolder) {
+        const key = folder.uri.toString();
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, '.gitignore'));
+            if (this.watchers.has(key)) {
+                this.gitignores.set(key, compileGitignore(Buffer.from(data).toString('utf8')));
+            }
+        } catch {
+            this.gitignores.delete(key); // No .gitignore
+        }
+        this._onDidChange.fire();
+        this.log.debug(`Loaded ${this.gitignores.get(key)?.length ?? 0} .gitignore patterns for ${folder.name}`);
+    }
+}
@@ -0,0 +1,107 @@
+import WebSocket from 'ws';
+import * as vscode from 'vscode';
+import { getProxyAgent } from './proxy';
+
+// How the client reaches a check-in server: a real server, a scripted local demo, or not at all
+export type TransportMode = 'live' | 'demo' | 'offline';
+
+/**
+ * Get the mode selected in the yna.mode setting
+ */
+export function getTransportMode(): TransportMode {
+    const mode = vscode.workspace.getConfiguration('yna').get<string>('mode', 'live');
+    return mode === 'demo' || mode === 'offline' ? mode : 'live';
+}
+
+/**
+ * A connection to something that speaks the check-in protocol.
+ * Implementations start connecting when they are created and fire their
+ * events asynchronously, so listeners can be attached right after construction.
+ */
+export interface Transport {
+    // Fires once the connection is ready to send
+    readonly onOpen: vscode.Event<void>;
+    // Fires with every text frame received
+    readonly onMessage: vscode.Event<string>;
+    // Fires once when the connection is gone, whatever the cause
+    readonly onClose: vscode.Event<{ code: number, reason: string }>;
+    readonly onError: vscode.Event<Error>;
+    // Fires when the answer to ping() arrives
+    readonly onPong: vscode.Event<void>;
+
+    isConnecting(): boolean;
+    isOpen(): boolean;
+    send(data: string): void;
+    ping(): void;
+    // Close gracefully
+    close(): void;
+    // Drop the connection right away, e.g. when it is found to be stale
+    terminate(): void;
+    // Close without firing any further events
+    dispose(): void;
+}
+
+/**
+ * Transport over a real WebSocket connection, through the proxy when one is configured
+ */
+export class WebSocketTransport implements Transport {
+    private socket: WebSocket;
+    private _onOpen = new vscode.EventEmitter<void>();
+    private _onMessage = new vscode.EventEmitter<string>();
+    private _onClose = new vscode.EventEmitter<{ code: number, reason: string }>();
+    private _onError = new vscode.EventEmitter<Error>();
+    private _onPong = new vscode.EventEmitter<void>();
+
+    public readonly onOpen = this._onOpen.event;
+    public readonly onMessage = this._onMessage.event;
+    public readonly onClose = this._onClose.event;
+    public readonly onError = this._onError.event;
+    public readonly onPong = this._onPong.event;
+
+    constructor(url: string) {
+        this.socket = new WebSocket(url, { agent: getProxyAgent(url) });
+        this.socket.on('open', () => this._onOpen.fire());
+        this.socket.on('message', (data: WebSocket.Data) => this._onMessage.fire(data.toString()));
+        this.socket.on('close', (code, reason) => this._onClose.fire({ code, reason: reason.toString() }));
+        this.socket.on('error', error => this._onError.fire(error));
+        this.socket.on('pong', () => this._onPong.fire());
+    }
+
+    public isConnecting(): boolean {
+        return this.socket.readyState === WebSocket.CONNECTING;
+    }
+
+    public isOpen(): boolean {
+        return this.socket.readyState === WebSocket.OPEN;
+    }
+
+    public send(data: string) {
+        this.socket.send(data);
+    }
+
+    public ping() {
+        this.socket.ping();
+    }
+
+    public close() {
+        if (this.socket.readyState !== WebSocket.CLOSED) {
+            this.socket.close();
+        }
+    }
+
+    public terminate() {
+        this.socket.terminate();
+    }
+
+    public dispose() {
+        this.socket.removeAllListeners();
+        this.socket.on('error', () => { /* Ignore errors from the discarded socket */ });
+        this.close();
+
+        this._onOpen.dispose();
+        this._onMessage.dispose();
+        this._onClose.dispose();
+        this._onError.dispose();
+        this._onPong.dispose();
+    }
+}
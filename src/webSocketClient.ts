@@ -1,97 +1,237 @@
-import WebSocket from 'ws';
 import * as vscode from 'vscode';
 import * as crypto from 'crypto';
-import config from '../../config.json';
+import { OutboundQueue } from './outboundQueue';
+import { Transport, TransportMode, WebSocketTransport, getTransportMode } from './transport';
+import { ScriptedTransport } from './scriptedTransport';
+import { openSharedTransport, LeaderTransport, FollowerTransport } from './sharedConnection';
+import { ReconnectScheduler, ReconnectState } from './reconnectScheduler';
+import {
+    CheckInMessage, NewCheckInMessage, Message, HistoryRequestMessage, AuthMessage, AuthFailureReason,
+    AuthFailedMessage, SessionMessage, CheckInAckMessage, CheckInRejectedMessage, OnlineUsersRequestMessage,
+    HelloMessage, HelloOkMessage, HelloRejectedMessage, Capability, PROTOCOL_VERSION, CAPABILITIES,
+    ConfigMessage, ServerLimits, DEFAULT_LIMITS, getSigningPayload
+} from './protocol';
+import { parseMessage } from './protocolValidation';
+import { Logger } from './logger';
+import { getProxyUrl, describeProxy, describeProxyFailure } from './proxy';
+import { PrivacyRule, applyPrivacyRule, getActivePrivacyRule } from './privacy';
+import { ActivityContextTracker } from './activityContextTracker';
 
-// Define the message types
-export interface CheckInMessage {
-    type: 'checkin';
-    username: string;
-    tags: string[];
-    message: string;
-    timestamp: string;
-    avatarUrl?: string; // Optional GitHub avatar URL
-    snippet?: string; // Random code snippet when a language is detected
-    token?: string; // GitHub authentication token (only in request, never stored)
-    signature?: string; // HMAC signature for message verification
-    signatureTimestamp?: string; // Timestamp used in generating the signature
+// The protocol types are part of the client's public surface
+export * from './protocol';
+
+// Outcome of a check-in attempt
+export interface CheckInResult {
+    status: 'accepted' | 'queued' | 'rejected'; // Queued: waiting for a connection or for the server's answer
+    reason?: string; // Why the check-in was rejected
+    tags?: string[]; // Tags actually sent, after privacy rules
+    privacyRule?: PrivacyRule; // Rule that changed or hid the tags
 }
 
-export interface NewCheckInMessage {
-    type: 'new_checkin';
-    username: string;
-    tags: string[];
-    message: string;
-    timestamp: string;
-    avatarUrl?: string; // Optional GitHub avatar URL
-    snippet?: string; // Random code snippet when a language is detected
+/**
+ * Describe the connection quality for a measured round-trip time
+ * @param latencyMs Round-trip time in milliseconds
+ */
+export function getConnectionQuality(latencyMs: number): 'good' | 'fair' | 'poor' {
+    if (latencyMs < 150) {
+        return 'good';
+    }
+    return latencyMs < 400 ? 'fair' : 'poor';
 }
 
-export interface OnlineUsersMessage {
-    type: 'online_users';
-    count: number;
+/**
+ * Describe an authentication failure for the re-sign-in prompt
+ * @param reason Reason code sent by the server
+ */
+export function describeAuthFailure(reason: AuthFailureReason): string {
+    switch (reason) {
+        case 'missing_token':
+            return 'You are not signed in to GitHub.';
+        case 'expired_token':
+            return 'Your GitHub session has expired.';
+        case 'insufficient_scope':
+            return 'Your GitHub session is missing the required permissions.';
+        case 'forbidden':
+            return 'This GitHub account is not allowed to connect.';
+        default:
+            return 'Your GitHub session is no longer valid.';
+    }
 }
 
-export interface ErrorMessage {
-    type: 'error';
+// Raised when the server needs, or would like, a newer extension
+export interface UpdateSuggestion {
+    required: boolean; // True when the server refused to talk to this version
     message: string;
 }
 
-export type Message = CheckInMessage | NewCheckInMessage | OnlineUsersMessage | ErrorMessage;
+// Snapshot of the connection for the diagnostics report
+export interface ConnectionDiagnostics {
+    mode: TransportMode;
+    serverUrl: string;
+    state: 'offline' | 'disconnected' | 'connecting' | 'authenticating' | 'connected';
+    lastClose?: { code: number, reason: string, at: number }; // Most recent close of a connection
+    lastError?: string; // Most recent connection error
+    proxy?: string; // Proxy the connection goes through, without credentials
+    latencyMs?: number; // Last heartbeat round-trip time
+    reconnect: ReconnectState;
+    lastHistorySize?: number; // Check-ins in the most recent history replay
+    protocolVersion?: number; // Negotiated in hello_ok, undefined for servers that predate it
+    rejectedFrameCount: number;
+    queuedCheckIns: number;
+    sharedConnection?: { role: 'leader' | 'follower', followers?: number }; // Set when windows share the connection
+}
 
 export class WebSocketClient {
-    private socket: WebSocket | null = null;
-    private reconnectInterval = 5000; // 5 seconds
+    private transport: Transport | null = null;
+    private log = Logger.getInstance();
+    private reconnectScheduler: ReconnectScheduler; // The only thing that starts reconnect attempts
     private url: string;
+    private mode: TransportMode; // Live server, scripted demo or offline
     private _onMessageReceived = new vscode.EventEmitter<NewCheckInMessage>();
     private _onConnectionStatusChanged = new vscode.EventEmitter<boolean>();
-    private _onHistoryReceived = new vscode.EventEmitter<void>();
+    private _onHistoryReceived = new vscode.EventEmitter<NewCheckInMessage[]>();
     private _onOnlineUsersChanged = new vscode.EventEmitter<number>();
     private _onCooldownChanged = new vscode.EventEmitter<number>(); // Add cooldown event emitter
+    private _onLatencyChanged = new vscode.EventEmitter<number>();
+    private _onCheckInAcknowledged = new vscode.EventEmitter<string>();
+    private _onCheckInDiscarded = new vscode.EventEmitter<string>();
+    private _onAuthFailed = new vscode.EventEmitter<AuthFailureReason>();
+    private _onServerChanged = new vscode.EventEmitter<string>();
+    private _onUpdateSuggested = new vscode.EventEmitter<UpdateSuggestion>();
+    private _onLimitsChanged = new vscode.EventEmitter<ServerLimits>();
     private initialHistoryReceived = false;
     private allReceivedCheckIns: NewCheckInMessage[] = []; // Store all received check-ins
     private receivingInitialHistory = false;
-    private lastHistoryMessageTime = 0;
+    private lastSeenTimestamp: string | null = null; // Resync cursor: newest server check-in timestamp
+    private lastSeenSeq: number | null = null; // Resync cursor: newest server sequence id
     private onlineUsersCount = 0;
     private extensionUri: vscode.Uri; // Store the extension URI for file access
+    private outboundQueue: OutboundQueue; // Check-ins waiting for the server
+    private readonly windowId = crypto.randomUUID(); // Owns the check-ins this window queues
     private snippets: string[] = []; // Cache the snippets
     private snippetsLoaded = false;
-    private lastCheckInTime = 0; // Track when user last checked in
-    private cooldownPeriodMs = 10 * 60 * 1000; // 10 minutes in milliseconds
+    private globalState: vscode.Memento; // Persists the cooldown across sessions and windows
+    private limits: ServerLimits = { ...DEFAULT_LIMITS }; // As announced by the server, defaults until then
+    private cooldownTimer: NodeJS.Timeout | null = null;
+    private session: SessionMessage | null = null; // Signing session for the current connection
+    private ackWaiters = new Map<string, (result: CheckInResult) => void>(); // Check-ins awaiting the server's answer
     private isAuthenticated = true; // Add authentication status
+    private connectionAuthenticated = false; // Whether the server accepted our auth frame
+    private authRejected = false; // Stop reconnecting until the user signs in again
+    private helloRejected = false; // Stop reconnecting, the server won't talk to this version
+    private negotiated: HelloOkMessage | null = null; // Null until hello_ok, or for servers that predate hello
+    private rejectedFrameCount = 0; // Frames dropped because they failed validation
+    private lastClose: { code: number, reason: string, at: number } | undefined;
+    private lastError: string | undefined;
+    private proxyWarningShown = false; // Only warn once until a connection succeeds
+    private historySizeInProgress = 0; // Check-ins received since history_start
+    private lastHistorySize: number | undefined; // Check-ins in the last complete history replay
+    private clientName: string; // Sent in hello for the server's logs
     private autoReconnect = true; // Add auto-reconnect flag
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private pongTimeout: NodeJS.Timeout | null = null;
+    private lastPingSentAt = 0;
+    private latencyMs: number | undefined; // Last measured round-trip time
 
     // Event that fires when a new check-in message is received
     public readonly onMessageReceived = this._onMessageReceived.event;
     // Event that fires when connection status changes
     public readonly onConnectionStatusChanged = this._onConnectionStatusChanged.event;
-    // Event that fires when initial history is received
+    // Event that fires once the complete history has been received, carrying every known check-in
     public readonly onHistoryReceived = this._onHistoryReceived.event;
     // Event that fires when online users count changes
     public readonly onOnlineUsersChanged = this._onOnlineUsersChanged.event;
     // Event that fires when cooldown status changes
     public readonly onCooldownChanged = this._onCooldownChanged.event;
+    // Event that fires with the round-trip time (ms) measured by each heartbeat
+    public readonly onLatencyChanged = this._onLatencyChanged.event;
+    // Event that fires with the id of a queued check-in once the server has acknowledged it
+    public readonly onCheckInAcknowledged = this._onCheckInAcknowledged.event;
+    // Event that fires with the id of a queued check-in that was dropped without being delivered
+    public readonly onCheckInDiscarded = this._onCheckInDiscarded.event;
+    // Event that fires when the server refuses our credentials and the user needs to sign in again
+    public readonly onAuthFailed = this._onAuthFailed.event;
+    // Event that fires with the new URL after switching servers or modes; cached check-ins have been cleared
+    public readonly onServerChanged = this._onServerChanged.event;
+    // Event that fires when the server asks for a newer version of the extension
+    public readonly onUpdateSuggested = this._onUpdateSuggested.event;
+    // Event that fires when the server announces its limits, or they are reset to the defaults
+    public readonly onLimitsChanged = this._onLimitsChanged.event;
+    // Event that fires when a reconnect is scheduled, starts, is suspended or paused
+    public readonly onReconnectStateChanged: vscode.Event<ReconnectState>;
     
-    constructor(url: string, extensionUri: vscode.Uri, autoConnect: boolean = false) {
+    constructor(url: string, context: vscode.ExtensionContext, autoConnect: boolean = false) {
         this.url = url;
-        this.extensionUri = extensionUri;
+        this.mode = getTransportMode();
+        this.clientName = `youre-not-alone/${context.extension.packageJSON.version}`;
+        this.extensionUri = context.extensionUri;
+        this.globalState = context.globalState;
+        this.outboundQueue = this.createOutboundQueue();
+        this.reconnectScheduler = new ReconnectScheduler(() => this.connect());
+        this.onReconnectStateChanged = this.reconnectScheduler.onStateChanged;
+        this.reconnectScheduler.onStateChanged(state => {
+            if (state.status === 'scheduled') {
+                const attempts = state.maxAttempts > 0 ? ` of ${state.maxAttempts}` : '';
+                this.log.info(`Reconnect attempt ${state.attempt}${attempts} in ${((state.retryAt - Date.now()) / 1000).toFixed(1)} seconds`);
+            } else if (state.status === 'suspended') {
+                this.log.info('Reconnecting suspended while the window is not focused');
+            } else if (state.status === 'paused') {
+                this.log.warn(`Reconnecting paused after ${state.attempts} failed attempts`);
+            }
+        });
         
-        // Use cooldown period from config instead of hardcoded value
-        this.cooldownPeriodMs = config.cooldownPeriod.minutes * 60 * 1000;
+        // Show check-ins queued in a previous session as pending
+        this.outboundQueue.getAll().forEach(entry => {
+            this.storeCheckIn(this.toLocalCheckIn(entry.checkIn, true));
+        });
         
         // Preload the snippets
         this.loadSnippets();
         
+        // Resume a cooldown carried over from a previous session
+        this.startCooldownTimer();
+        
         if (autoConnect) {
-            // Attempt to connect to the real WebSocket server
-            this.connect();
-            
-            // As a fallback, if connection fails, we'll still show some data
-            setTimeout(() => {
-                if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
-                    this.simulateData();
+            this.reconnectScheduler.retryNow();
+        }
+    }
+    
+    /**
+     * Demo check-ins are queued separately so they never reach a real server
+     */
+    private createOutboundQueue(): OutboundQueue {
+        return new OutboundQueue(this.globalState, this.windowId, this.mode === 'demo' ? 'yna.demo.outboundQueue' : undefined);
+    }
+    
+    /**
+     * Key for state that must not be shared between demo and real use
+     */
+    private getStateKey(name: string): string {
+        return this.mode === 'demo' ? `yna.demo.${name}` : `yna.${name}`;
+    }
+    
+    /**
+     * Create the transport for the current mode
+     * @param token Token the connection will authenticate with
+     * @returns the transport, or null in offline mode
+     */
+    private async createTransport(token: string): Promise<Transport | null> {
+        switch (this.mode) {
+            case 'offline':
+                return null;
+            case 'demo': {
+                const scenarioFile = vscode.workspace.getConfiguration('yna.demo').get<string>('scenarioFile', '');
+                const scenarioUri = scenarioFile
+                    ? vscode.Uri.file(scenarioFile)
+                    : vscode.Uri.joinPath(this.extensionUri, 'data', 'demoScenario.json');
+                return new ScriptedTransport(scenarioUri);
+            }
+            default:
+                // One connection per person rather than per window, unless turned off
+                if (vscode.workspace.getConfiguration('yna').get<boolean>('shareConnection', true)) {
+                    return openSharedTransport(this.url, token, () => this.getAllCheckIns());
                 }
-            }, 5000);
+                return new WebSocketTransport(this.url);
         }
     }
     
@@ -103,7 +243,7 @@ export class WebSocketClient {
             this.snippets = JSON.parse(data.toString());
             this.snippetsLoaded = true;
         } catch (error) {
-            console.error(`Error loading snippets: ${error instanceof Error ? error.message : String(error)}`);
+            this.log.error(`Error loading snippets: ${error instanceof Error ? error.message : String(error)}`);
             // Use some default snippets as fallback
             this.snippets = [
                 "🚀 is coding with enthusiasm",
@@ -126,180 +266,486 @@ export class WebSocketClient {
     
     private connect() {
         // If already connecting or connected, don't try again
-        if (this.socket) {
-            if (this.socket.readyState === WebSocket.CONNECTING) {
-                console.log('Already attempting to connect, skipping duplicate attempt');
+        if (this.transport) {
+            // The attempt in flight reports to the scheduler once it opens or closes
+            if (this.transport.isConnecting()) {
+                this.log.debug('Already attempting to connect, skipping duplicate attempt');
                 return;
             }
-            if (this.socket.readyState === WebSocket.OPEN) {
-                console.log('WebSocket already connected');
-                this._onConnectionStatusChanged.fire(true);
+            if (this.transport.isOpen()) {
+                this.log.debug('Already connected');
+                // Until then auth_ok, auth_failed or the close reports the outcome
+                if (this.connectionAuthenticated) {
+                    this.reconnectScheduler.connected();
+                    this._onConnectionStatusChanged.fire(true);
+                }
                 return;
             }
             
-            // Close existing socket if not already closed
-            if (this.socket.readyState !== WebSocket.CLOSED) {
-                try {
-                    this.socket.removeAllListeners();
-                    this.socket.close();
-                } catch (err) {
-                    console.error('Error closing existing socket:', err);
-                }
-            }
-            this.socket = null;
+            // Discard the closed transport
+            this.transport.dispose();
+            this.transport = null;
+        }
+        
+        if (this.mode === 'offline') {
+            this.log.info('Offline mode, not connecting');
+            this.reconnectScheduler.cancel();
+            this._onConnectionStatusChanged.fire(false);
+            return;
         }
         
-        // Reset the history received flag when we reconnect
+        // Reset the history received flag when we reconnect; the server frames the
+        // replay with history_start / history_end
         this.initialHistoryReceived = false;
-        this.receivingInitialHistory = true;
+        this.receivingInitialHistory = false;
+        this.connectionAuthenticated = false;
+        this.authRejected = false;
+        this.helloRejected = false;
+        this.negotiated = null;
         
-        console.log('Initiating new WebSocket connection...');
+        this.log.info(this.mode === 'demo' ? 'Starting scripted demo connection...' : `Connecting to ${this.url}...`);
         
-        try {
-            // Get auth token before connecting
-            this.getAuthToken().then(token => {
-                try {
-                    // Add token to URL if available
-                    const connectionUrl = token 
-                        ? `${this.url}?token=${encodeURIComponent(token)}` 
-                        : this.url;
-                    
-                    console.log('Creating new WebSocket connection...');
-                    
-                    // Create a new WebSocket
-                    this.socket = new WebSocket(connectionUrl);
-                    
-                    // Track connection timeout
-                    const connectionTimeoutId = setTimeout(() => {
-                        if (this.socket && this.socket.readyState === WebSocket.CONNECTING) {
-                            console.log('WebSocket connection timed out');
-                            this.socket.close();
-                            this._onConnectionStatusChanged.fire(false);
-                        }
-                    }, 10000); // 10 second timeout
-                    
-                    // Set up event handlers immediately before any operations
-                    this.socket.on('error', (error) => {
-                        console.error('WebSocket error:', error);
-                        this._onConnectionStatusChanged.fire(false);
-                    });
-                    
-                    this.socket.on('close', (code, reason) => {
-                        console.log(`WebSocket closed with code ${code}${reason ? ': ' + reason : ''}`);
+        // The scripted demo accepts any token, don't involve GitHub
+        const tokenPromise = this.mode === 'demo' ? Promise.resolve('demo') : this.getAuthToken();
+        
+        // Get auth token before connecting, it is sent in the first frame
+        tokenPromise.then(async token => {
+            if (!token) {
+                this.log.info('No GitHub session, not connecting');
+                this.handleAuthFailed({ type: 'auth_failed', reason: 'missing_token' });
+                return;
+            }
+            
+            try {
+                // The URL carries no credentials
+                const transport = await this.createTransport(token);
+                if (!transport || this.mode === 'offline') {
+                    // The mode changed while we were finding the leader
+                    transport?.dispose();
+                    this.reconnectScheduler.cancel();
+                    return;
+                }
+                if (this.transport) {
+                    // Something else connected in the meantime; report how that went
+                    transport.dispose();
+                    if (this.transport.isOpen() && this.connectionAuthenticated) {
+                        this.reconnectScheduler.connected();
+                    } else if (!this.transport.isConnecting() && !this.transport.isOpen()) {
+                        this.reconnectScheduler.failed();
+                    }
+                    return;
+                }
+                this.transport = transport;
+                
+                // Track connection timeout
+                const connectionTimeoutId = setTimeout(() => {
+                    if (this.transport === transport && transport.isConnecting()) {
+                        this.log.warn('Connection timed out');
+                        transport.close();
                         this._onConnectionStatusChanged.fire(false);
-                        
-                        // Check if this was an authentication error
-                        if (code === 4000 || reason?.includes('auth')) {
-                            vscode.window.showErrorMessage('Authentication failed. Please sign in to continue.');
-                        } else if (this.autoReconnect) {
-                            // Try to reconnect after a delay, with increasing backoff
-                            console.log(`Will attempt reconnect in ${this.reconnectInterval/1000} seconds`);
-                            setTimeout(() => {
-                                // Increase reconnect interval for exponential backoff (max 30 seconds)
-                                this.reconnectInterval = Math.min(this.reconnectInterval * 1.5, 30000);
-                                this.connect();
-                            }, this.reconnectInterval);
-                        }
-                    });
-                    
-                    this.socket.on('open', () => {
-                        console.log('WebSocket connection established successfully');
-                        // Clear timeout when connection succeeds
-                        clearTimeout(connectionTimeoutId);
-                        // Reset reconnect interval on successful connection
-                        this.reconnectInterval = 5000;
-                        this._onConnectionStatusChanged.fire(true);
-                        this.lastHistoryMessageTime = Date.now();
-                    });
+                    }
+                }, 10000); // 10 second timeout
+                
+                transport.onError(error => {
+                    this.log.error('Connection error:', error);
+                    this.handleConnectionError(error);
+                    this._onConnectionStatusChanged.fire(false);
+                });
+                
+                transport.onClose(({ code, reason }) => {
+                    this.log.info(`Connection closed with code ${code}${reason ? ': ' + reason : ''}`);
+                    this.lastClose = { code, reason, at: Date.now() };
+                    clearTimeout(connectionTimeoutId);
+                    this.stopHeartbeat();
+                    this.session = null;
+                    this.connectionAuthenticated = false;
+                    this._onConnectionStatusChanged.fire(false);
                     
-                    // Track if we've received messages to detect the first batch
-                    let messageCount = 0;
-                    let historyTimeout: NodeJS.Timeout | null = null;
+                    // After auth_failed, wait for the user to sign in again
+                    if (this.authRejected) {
+                        this.log.info('Not reconnecting until the user signs in again');
+                    } else if (this.helloRejected) {
+                        this.log.info('Not reconnecting, the server does not support this version of the extension');
+                    } else if (this.autoReconnect) {
+                        this.reconnectScheduler.failed();
+                    }
+                });
+                
+                transport.onOpen(() => {
+                    this.log.info('Connection established successfully');
+                    // Clear timeout when connection succeeds
+                    clearTimeout(connectionTimeoutId);
                     
-                    this.socket.on('message', (data: WebSocket.Data) => {
-                        try {
-                            const message = JSON.parse(data.toString()) as Message;
-                            
-                            if (message.type === 'new_checkin') {
-                                messageCount++;
-                                const now = Date.now();
-                                this.lastHistoryMessageTime = now;
-                                
-                                // Store in our full history
-                                this.storeCheckIn(message);
-                                
-                                // When receiving history, we expect messages to come quickly
-                                // If there's a significant gap, we assume history is complete
-                                if (this.receivingInitialHistory) {
-                                    // Reset timeout with each message
-                                    if (historyTimeout) {
-                                        clearTimeout(historyTimeout);
-                                        historyTimeout = null;
-                                    }
-                                    
-                                    // Set a timeout to consider history complete if no more messages arrive
-                                    historyTimeout = setTimeout(() => {
-                                        if (this.receivingInitialHistory && !this.initialHistoryReceived) {
-                                            this.receivingInitialHistory = false;
-                                            this.initialHistoryReceived = true;
-                                            this._onHistoryReceived.fire();
-                                        }
-                                    }, 1000); // Wait 1 second after last message
-                                }
-                                
-                                // Emit the message event
-                                this._onMessageReceived.fire(message);
-                            } else if (message.type === 'online_users') {
-                                // Handle online users count update
-                                this.onlineUsersCount = message.count;
-                                this._onOnlineUsersChanged.fire(this.onlineUsersCount);
-                            } else if (message.type === 'error') {
-                                // Handle error messages from server
-                                console.error(`Server error: ${message.message}`);
-                                vscode.window.showErrorMessage(`Server error: ${message.message}`);
-                            }
-                        } catch (error) {
-                            console.error('Error parsing WebSocket message:', error);
-                        }
-                    });
+                    // Start detecting half-open connections
+                    this.startHeartbeat();
                     
-                    // Set a timeout to handle the case where no messages are received
-                    setTimeout(() => {
-                        if (this.receivingInitialHistory && !this.initialHistoryReceived) {
-                            this.receivingInitialHistory = false;
-                            this.initialHistoryReceived = true;
-                            this._onHistoryReceived.fire();
-                        }
-                    }, 3000); // Wait 3 seconds after connection to trigger empty history
-                } catch (error) {
-                    console.error('Error creating WebSocket connection:', error);
-                    this._onConnectionStatusChanged.fire(false);
+                    // Say which protocol we speak, then authenticate. Auth doesn't wait for
+                    // hello_ok so servers that predate hello keep working.
+                    const helloMessage: HelloMessage = {
+                        type: 'hello',
+                        protocolVersion: PROTOCOL_VERSION,
+                        capabilities: CAPABILITIES,
+                        client: this.clientName
+                    };
+                    this.sendMessage(transport, helloMessage);
                     
-                    // Try to reconnect after a delay if auto-reconnect is enabled
-                    if (this.autoReconnect) {
-                        setTimeout(() => this.connect(), this.reconnectInterval);
-                    }
-                }
-            }).catch(error => {
-                console.error('Error getting auth token:', error);
+                    // The server answers auth_ok or auth_failed
+                    const authMessage: AuthMessage = { type: 'auth', token };
+                    this.sendMessage(transport, authMessage);
+                });
+                
+                transport.onPong(() => {
+                    this.handlePong();
+                });
+                
+                transport.onMessage(data => {
+                    this.handleMessage(data);
+                });
+            } catch (error) {
+                this.log.error('Error creating connection:', error);
                 this._onConnectionStatusChanged.fire(false);
                 
-                // Try to reconnect after a delay if auto-reconnect is enabled
                 if (this.autoReconnect) {
-                    setTimeout(() => this.connect(), this.reconnectInterval);
+                    this.reconnectScheduler.failed();
                 }
-            });
-        } catch (error) {
-            console.error('Error connecting to WebSocket:', error);
+            }
+        }).catch(error => {
+            this.log.error('Error getting auth token:', error);
             this._onConnectionStatusChanged.fire(false);
             
-            // Try to reconnect after a delay if auto-reconnect is enabled
             if (this.autoReconnect) {
-                setTimeout(() => this.connect(), this.reconnectInterval);
+                this.reconnectScheduler.failed();
             }
+        });
+    }
+    
+    /**
+     * Send a message, tracing it with credentials redacted
+     */
+    private sendMessage(transport: Transport, message: Message) {
+        const data = JSON.stringify(message);
+        this.log.trace(`Sending ${data}`);
+        transport.send(data);
+    }
+    
+    /**
+     * Handle a frame received from the server
+     */
+    private handleMessage(data: string) {
+        this.log.trace(`Received ${data}`);
+        try {
+            const parsed = parseMessage(data);
+            if ('error' in parsed) {
+                // Malformed or from a newer protocol; never let it reach the view
+                this.rejectedFrameCount++;
+                this.log.warn(`Ignoring invalid frame (${this.rejectedFrameCount} so far): ${parsed.error}`);
+                return;
+            }
+            const message: Message = parsed.message;
+            
+            if (message.type === 'hello_ok') {
+                this.handleHelloOk(message);
+            } else if (message.type === 'hello_rejected') {
+                this.handleHelloRejected(message);
+            } else if (message.type === 'config') {
+                this.applyConfig(message);
+            } else if (message.type === 'auth_ok') {
+                this.log.info(`Authenticated${message.username ? ' as ' + message.username : ''}`);
+                this.connectionAuthenticated = true;
+                this.proxyWarningShown = false;
+                this.reconnectScheduler.connected();
+                this._onConnectionStatusChanged.fire(true);
+                
+                // Ask for the backlog; after a reconnect only missed check-ins come back
+                this.sendHistoryRequest();
+            } else if (message.type === 'auth_failed') {
+                this.handleAuthFailed(message);
+            } else if (message.type === 'session') {
+                // Check-ins can be signed from now on
+                this.session = message;
+                
+                // Deliver anything that was checked in while we were offline
+                this.flushOutboundQueue();
+            } else if (message.type === 'history_start') {
+                // The server is about to replay the backlog
+                this.receivingInitialHistory = true;
+                this.initialHistoryReceived = false;
+                this.historySizeInProgress = 0;
+                this.log.debug(`Receiving ${message.delta ? 'missed check-ins' : 'full history'}${typeof message.count === 'number' ? ' (' + message.count + ')' : ''}`);
+            } else if (message.type === 'history_batch') {
+                // Store the backlog without emitting per-message events,
+                // the view renders it once the history is complete
+                message.checkIns.forEach(checkIn => {
+                    this.advanceCursor(checkIn);
+                    this.storeCheckIn(checkIn);
+                });
+                this.historySizeInProgress += message.checkIns.length;
+            } else if (message.type === 'history_end') {
+                this.lastHistorySize = this.historySizeInProgress;
+                this.log.info(`History received: ${this.lastHistorySize} check-in${this.lastHistorySize === 1 ? '' : 's'}`);
+                this.completeHistory();
+            } else if (message.type === 'new_checkin') {
+                // A check-in at or behind our cursor is a replay, not a new event
+                const isReplay = typeof message.seq === 'number'
+                    && this.lastSeenSeq !== null
+                    && message.seq <= this.lastSeenSeq;
+                
+                // Store in our full history
+                this.advanceCursor(message);
+                this.storeCheckIn(message);
+                
+                // Emit the message event
+                if (!isReplay) {
+                    this._onMessageReceived.fire(message);
+                }
+            } else if (message.type === 'checkin_ack') {
+                this.handleCheckInAck(message);
+            } else if (message.type === 'checkin_rejected') {
+                this.handleCheckInRejected(message);
+            } else if (message.type === 'online_users') {
+                // Handle online users count update
+                this.onlineUsersCount = message.count;
+                this._onOnlineUsersChanged.fire(this.onlineUsersCount);
+            } else if (message.type === 'error') {
+                // Handle error messages from server
+                this.log.error(`Server error: ${message.message}`);
+                vscode.window.showErrorMessage(`Server error: ${message.message}`);
+            }
+        } catch (error) {
+            this.log.error('Error handling server message:', error);
         }
     }
     
+    /**
+     * Remember a connection error, and tell the user when the proxy is in the way
+     */
+    private handleConnectionError(error: Error) {
+        const proxyProblem = describeProxyFailure(this.url, error);
+        this.lastError = proxyProblem ?? error.message;
+        
+        if (!proxyProblem || this.proxyWarningShown) {
+            return;
+        }
+        this.proxyWarningShown = true;
+        this.log.warn(proxyProblem);
+        
+        vscode.window.showWarningMessage(`Could not connect to the check-in server. ${proxyProblem}`, 'Proxy Settings').then(selection => {
+            if (selection === 'Proxy Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'http.proxy');
+            }
+        });
+    }
+    
+    /**
+     * Remember what the server agreed to speak, and suggest an update if it speaks something newer
+     */
+    private handleHelloOk(message: HelloOkMessage) {
+        this.negotiated = message;
+        this.log.info(`Server speaks protocol version ${message.protocolVersion} with ${message.capabilities.join(', ') || 'no optional features'}`);
+        
+        if (message.protocolVersion < PROTOCOL_VERSION) {
+            this.log.info(`Downgraded from protocol version ${PROTOCOL_VERSION}`);
+        } else if (typeof message.latestProtocolVersion === 'number' && message.latestProtocolVersion > PROTOCOL_VERSION) {
+            this._onUpdateSuggested.fire({
+                required: false,
+                message: 'A newer version of You\'re Not Alone is available for this server.'
+            });
+        }
+    }
+    
+    /**
+     * Adopt the limits announced by the server; anything it leaves out keeps its default
+     */
+    private applyConfig(message: ConfigMessage) {
+        this.limits = {
+            maxMessageLength: message.maxMessageLength ?? DEFAULT_LIMITS.maxMessageLength,
+            cooldownSeconds: message.cooldownSeconds ?? DEFAULT_LIMITS.cooldownSeconds,
+            maxTags: message.maxTags ?? DEFAULT_LIMITS.maxTags,
+            historySize: message.historySize ?? DEFAULT_LIMITS.historySize
+        };
+        this.log.info(`Server limits: ${JSON.stringify(this.limits)}`);
+        this._onLimitsChanged.fire(this.getLimits());
+    }
+    
+    /**
+     * Get the limits of the current server
+     */
+    public getLimits(): ServerLimits {
+        return { ...this.limits };
+    }
+    
+    /**
+     * Stop reconnecting and ask the user to update the extension
+     */
+    private handleHelloRejected(message: HelloRejectedMessage) {
+        this.log.warn(`Server refused protocol version ${PROTOCOL_VERSION}: ${message.reason}${message.message ? ' (' + message.message + ')' : ''}`);
+        this.helloRejected = true;
+        this.connectionAuthenticated = false;
+        this.reconnectScheduler.cancel();
+        
+        this.transport?.close();
+        
+        this._onConnectionStatusChanged.fire(false);
+        this._onUpdateSuggested.fire({
+            required: true,
+            message: message.message ?? (message.reason === 'client_outdated'
+                ? 'This version of You\'re Not Alone is too old for the server.'
+                : 'The server does not support this version of You\'re Not Alone.')
+        });
+    }
+    
+    /**
+     * Check whether the server enabled an optional protocol feature.
+     * Servers that predate hello are assumed to support everything they did before it.
+     */
+    public hasCapability(capability: Capability): boolean {
+        return this.negotiated === null || this.negotiated.capabilities.includes(capability);
+    }
+    
+    /**
+     * Get the number of frames dropped because they failed validation
+     */
+    public getRejectedFrameCount(): number {
+        return this.rejectedFrameCount;
+    }
+    
+    /**
+     * Describe the current state of the connection for troubleshooting
+     */
+    public getDiagnostics(): ConnectionDiagnostics {
+        let state: ConnectionDiagnostics['state'];
+        if (this.mode === 'offline') {
+            state = 'offline';
+        } else if (this.isConnected()) {
+            state = 'connected';
+        } else if (this.transport?.isOpen()) {
+            state = 'authenticating';
+        } else if (this.transport?.isConnecting()) {
+            state = 'connecting';
+        } else {
+            state = 'disconnected';
+        }
+        
+        return {
+            mode: this.mode,
+            serverUrl: this.url,
+            state,
+            lastClose: this.lastClose,
+            lastError: this.lastError,
+            proxy: this.mode === 'live' && getProxyUrl(this.url) ? describeProxy(getProxyUrl(this.url)!) : undefined,
+            latencyMs: this.getLatency(),
+            reconnect: this.reconnectScheduler.getState(),
+            lastHistorySize: this.lastHistorySize,
+            protocolVersion: this.negotiated?.protocolVersion,
+            rejectedFrameCount: this.rejectedFrameCount,
+            queuedCheckIns: this.outboundQueue.getAll().length,
+            sharedConnection: this.transport instanceof LeaderTransport
+                ? { role: 'leader', followers: this.transport.getFollowerCount() }
+                : this.transport instanceof FollowerTransport ? { role: 'follower' } : undefined
+        };
+    }
+    
+    /**
+     * Stop reconnecting and ask the user to sign in again
+     */
+    private handleAuthFailed(message: AuthFailedMessage) {
+        this.log.warn(`Authentication failed: ${message.reason}${message.message ? ' (' + message.message + ')' : ''}`);
+        this.authRejected = true;
+        this.connectionAuthenticated = false;
+        this.reconnectScheduler.cancel();
+        
+        this.transport?.close();
+        
+        this._onConnectionStatusChanged.fire(false);
+        this._onAuthFailed.fire(message.reason);
+    }
+    
+    /**
+     * Start sending heartbeat pings on the current connection.
+     * Interval and timeout come from the yna.heartbeat settings.
+     */
+    private startHeartbeat() {
+        this.stopHeartbeat();
+        this.latencyMs = undefined;
+        
+        const heartbeatConfig = vscode.workspace.getConfiguration('yna.heartbeat');
+        const intervalMs = heartbeatConfig.get<number>('intervalSeconds', 30) * 1000;
+        
+        // Measure right away so the connection quality is known early
+        this.sendPing();
+        this.heartbeatTimer = setInterval(() => this.sendPing(), intervalMs);
+    }
+    
+    /**
+     * Stop the heartbeat and forget any outstanding ping
+     */
+    private stopHeartbeat() {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        if (this.pongTimeout) {
+            clearTimeout(this.pongTimeout);
+            this.pongTimeout = null;
+        }
+    }
+    
+    /**
+     * Send a ping and force a reconnect if no pong arrives in time
+     */
+    private sendPing() {
+        const transport = this.transport;
+        if (!transport || !transport.isOpen()) {
+            return;
+        }
+        
+        // Still waiting on the previous pong; its timeout decides the outcome
+        if (this.pongTimeout) {
+            return;
+        }
+        
+        const timeoutMs = vscode.workspace.getConfiguration('yna.heartbeat').get<number>('timeoutSeconds', 10) * 1000;
+        
+        try {
+            this.lastPingSentAt = Date.now();
+            transport.ping();
+        } catch (error) {
+            this.log.error('Error sending heartbeat ping:', error);
+        }
+        
+        this.pongTimeout = setTimeout(() => {
+            this.pongTimeout = null;
+            if (this.transport === transport) {
+                this.log.warn(`No pong received within ${timeoutMs / 1000} seconds, connection is stale`);
+                // Terminating fires onClose, which takes care of reconnecting
+                transport.terminate();
+            }
+        }, timeoutMs);
+    }
+    
+    /**
+     * Record the round-trip time when a pong arrives
+     */
+    private handlePong() {
+        if (!this.pongTimeout) {
+            return; // Unsolicited pong
+        }
+        
+        clearTimeout(this.pongTimeout);
+        this.pongTimeout = null;
+        
+        this.latencyMs = Date.now() - this.lastPingSentAt;
+        this._onLatencyChanged.fire(this.latencyMs);
+    }
+    
+    /**
+     * Get the last measured round-trip time
+     * @returns latency in milliseconds, or undefined if not measured on this connection
+     */
+    public getLatency(): number | undefined {
+        return this.isConnected() ? this.latencyMs : undefined;
+    }
+    
     /**
      * Get the GitHub authentication token
      * @returns Promise resolving to token or undefined
@@ -323,11 +769,58 @@ export class WebSocketClient {
             }
             return undefined;
         } catch (error) {
-            console.error('Failed to get GitHub authentication token:', error);
+            this.log.error('Failed to get GitHub authentication token:', error);
             return undefined;
         }
     }
     
+    /**
+     * Mark the history as complete and notify listeners with the full backlog
+     */
+    private completeHistory() {
+        this.receivingInitialHistory = false;
+        this.initialHistoryReceived = true;
+        this._onHistoryReceived.fire(this.getAllCheckIns());
+    }
+    
+    /**
+     * Move the resync cursor forward for a check-in delivered by the server
+     */
+    private advanceCursor(checkIn: NewCheckInMessage) {
+        if (typeof checkIn.seq === 'number' && (this.lastSeenSeq === null || checkIn.seq > this.lastSeenSeq)) {
+            this.lastSeenSeq = checkIn.seq;
+        }
+        
+        const timestamp = new Date(checkIn.timestamp).getTime();
+        if (!isNaN(timestamp) && (this.lastSeenTimestamp === null || timestamp > new Date(this.lastSeenTimestamp).getTime())) {
+            this.lastSeenTimestamp = checkIn.timestamp;
+        }
+    }
+    
+    /**
+     * Send a history request carrying the last-seen cursor, if we have one
+     */
+    private sendHistoryRequest() {
+        if (!this.transport?.isOpen()) {
+            return;
+        }
+        
+        const historyRequest: HistoryRequestMessage = {
+            type: 'history_request'
+        };
+        // Servers without delta support always send the full backlog
+        if (this.hasCapability('history_delta')) {
+            if (this.lastSeenSeq !== null) {
+                historyRequest.sinceSeq = this.lastSeenSeq;
+            }
+            if (this.lastSeenTimestamp !== null) {
+                historyRequest.since = this.lastSeenTimestamp;
+            }
+        }
+        
+        this.sendMessage(this.transport, historyRequest);
+    }
+    
     // Store check-in with unique username, keeping only the latest for each user
     private storeCheckIn(checkIn: NewCheckInMessage) {
         try {
@@ -338,8 +831,10 @@ export class WebSocketClient {
                 const existingTimestamp = new Date(this.allReceivedCheckIns[existingIndex].timestamp).getTime();
                 const newTimestamp = new Date(checkIn.timestamp).getTime();
                 
-                // Only update if the new check-in is newer than the existing one
-                if (newTimestamp > existingTimestamp) {
+                // Only update if the new check-in is newer than the existing one,
+                // or is the server's copy of the same check-in
+                const isSameCheckIn = checkIn.id !== undefined && checkIn.id === this.allReceivedCheckIns[existingIndex].id;
+                if (newTimestamp > existingTimestamp || isSameCheckIn) {
                     this.allReceivedCheckIns[existingIndex] = checkIn;
                 }
             } else {
@@ -347,7 +842,7 @@ export class WebSocketClient {
                 this.allReceivedCheckIns.push(checkIn);
             }
         } catch (error) {
-            console.error("Error storing check-in:", error);
+            this.log.error("Error storing check-in:", error);
         }
     }
     
@@ -362,21 +857,21 @@ export class WebSocketClient {
     }
     
     /**
-     * Check if the WebSocket connection is currently open
+     * Check if the connection is currently open and authenticated
      * @returns true if connected, false otherwise
      */
     public isConnected(): boolean {
-        return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+        return this.transport !== null && this.transport.isOpen() && this.connectionAuthenticated;
     }
     
     // Request online users count from the server
     public requestOnlineUsers() {
-        if (this.socket?.readyState === WebSocket.OPEN) {
+        if (this.transport?.isOpen()) {
             // Send a online users request message to the server
-            const onlineUsersRequest = {
+            const onlineUsersRequest: OnlineUsersRequestMessage = {
                 type: 'online_users_request'
             };
-            this.socket.send(JSON.stringify(onlineUsersRequest));
+            this.sendMessage(this.transport, onlineUsersRequest);
         }
     }
     
@@ -386,35 +881,40 @@ export class WebSocketClient {
         this.initialHistoryReceived = false;
         this.receivingInitialHistory = true;
         
-        if (this.socket?.readyState === WebSocket.OPEN) {
-            // Send a history request message to the server
-            const historyRequest = {
-                type: 'history_request'
-            };
-            this.socket.send(JSON.stringify(historyRequest));
-            
-            // Set a timeout to handle the case where no response is received
-            setTimeout(() => {
-                if (this.receivingInitialHistory && !this.initialHistoryReceived) {
-                    this.receivingInitialHistory = false;
-                    this.initialHistoryReceived = true;
-                    this._onHistoryReceived.fire();
-                }
-            }, 3000); // Wait 3 seconds for response
+        if (this.transport?.isOpen()) {
+            // The server answers with history_start / history_batch / history_end
+            this.sendHistoryRequest();
         } else {
             // Fire history event with existing data if we have any
-            this.initialHistoryReceived = true;
-            this._onHistoryReceived.fire();
+            this.completeHistory();
         }
     }
     
+    /**
+     * Get the time the user may check in again, as last reported by the server.
+     * Stored in globalState so it survives restarts and is shared between windows.
+     * @returns milliseconds since epoch, 0 if there is no cooldown
+     */
+    private getNextAllowedAt(): number {
+        return this.globalState.get<number>(this.getStateKey('nextAllowedAt'), 0);
+    }
+
+    /**
+     * Persist the time the user may check in again and restart the cooldown timer
+     */
+    private setNextAllowedAt(nextAllowedAt: number) {
+        this.globalState.update(this.getStateKey('nextAllowedAt'), nextAllowedAt).then(undefined, error => {
+            this.log.error('Error saving cooldown state:', error);
+        });
+        this.startCooldownTimer();
+    }
+
     /**
      * Check if the user is allowed to check in
      * @returns boolean indicating if cooldown period has passed
      */
     public canCheckIn(): boolean {
-        const now = Date.now();
-        return now - this.lastCheckInTime >= this.cooldownPeriodMs;
+        return this.getRemainingCooldownTime() <= 0;
     }
 
     /**
@@ -422,14 +922,7 @@ export class WebSocketClient {
      * @returns number of milliseconds until next check-in is allowed, or 0 if can check in now
      */
     public getRemainingCooldownTime(): number {
-        const now = Date.now();
-        const elapsed = now - this.lastCheckInTime;
-        
-        if (elapsed >= this.cooldownPeriodMs) {
-            return 0;
-        }
-        
-        return this.cooldownPeriodMs - elapsed;
+        return Math.max(0, this.getNextAllowedAt() - Date.now());
     }
 
     /**
@@ -457,54 +950,51 @@ export class WebSocketClient {
      * Emits events as the cooldown progresses
      */
     private startCooldownTimer() {
-        // Don't start if we're already available
-        if (this.getRemainingCooldownTime() <= 0) {
-            return;
+        // Only one timer at a time, the cooldown may have been replaced by the server's value
+        if (this.cooldownTimer) {
+            clearInterval(this.cooldownTimer);
+            this.cooldownTimer = null;
         }
         
         // Fire initial event with current state
         this._onCooldownChanged.fire(this.getRemainingCooldownTime());
         
+        // Don't start if we're already available
+        if (this.getRemainingCooldownTime() <= 0) {
+            return;
+        }
+        
         // Set up an interval to update every second
-        const timer = setInterval(() => {
+        this.cooldownTimer = setInterval(() => {
             const remaining = this.getRemainingCooldownTime();
             
             // Fire the event with updated time
             this._onCooldownChanged.fire(remaining);
             
             // If cooldown has expired, clear the interval
-            if (remaining <= 0) {
-                clearInterval(timer);
+            if (remaining <= 0 && this.cooldownTimer) {
+                clearInterval(this.cooldownTimer);
+                this.cooldownTimer = null;
             }
         }, 1000);
     }
 
     /**
-     * Sign a message with HMAC using the shared secret
+     * Sign a message with HMAC using the key the server issued for this connection.
+     * The nonce and timestamp let the server reject replays.
      * @param message The message object to sign
+     * @param session Signing session of the current connection
      * @returns Object containing signature and timestamp
      */
-    private signMessage(message: any): { signature: string, timestamp: string } {
+    private signMessage(message: CheckInMessage, session: SessionMessage): { signature: string, timestamp: string } {
         // Create a timestamp to prevent replay attacks
         const timestamp = Date.now().toString();
         
-        // Create a clean version of the message without authentication data
-        const cleanMessage = {
-            type: message.type,
-            username: message.username,
-            tags: message.tags,
-            message: message.message,
-            timestamp: message.timestamp,
-            avatarUrl: message.avatarUrl,
-            snippet: message.snippet
-        };
-        
-        // Create a string to sign (message content + timestamp)
-        const messageStr = JSON.stringify(cleanMessage);
-        const dataToSign = messageStr + timestamp;
+        // Create a string to sign (message content + timestamp + session nonce)
+        const dataToSign = getSigningPayload(message, timestamp, session.nonce);
         
         // Create HMAC signature
-        const hmac = crypto.createHmac('sha256', config.signing.secret);
+        const hmac = crypto.createHmac('sha256', session.key);
         hmac.update(dataToSign);
         const signature = hmac.digest('hex');
         
@@ -512,262 +1002,374 @@ export class WebSocketClient {
     }
 
     /**
-     * Send a check-in message to the server
+     * Send a check-in message to the server.
+     * The check-in stays queued, and is shown as pending, until the server
+     * acknowledges it; when disconnected it is delivered on reconnect.
      * @param username GitHub username for the check-in
-     * @param tags Language/technology tags for this check-in
+     * @param tags Language/technology tags for this check-in, subject to yna.privacy.workspaces
      * @param message Optional short message
      * @param snippet Optional code snippet (will be overridden by random snippet)
-     * @returns Promise resolving to boolean indicating success
+     * @returns Promise resolving to the outcome of the check-in
      */
-    public sendCheckIn(username: string, tags: string[], message: string = '', snippet?: string): Promise<boolean> {
+    public async sendCheckIn(username: string, tags: string[], message: string = '', snippet?: string): Promise<CheckInResult> {
         // Check if user is on cooldown
         if (!this.canCheckIn()) {
-            return Promise.resolve(false);
+            return { status: 'rejected', reason: `You can check in again in ${this.getFormattedCooldownTime()}.` };
         }
         
-        // Enforce character limit of 42 characters
-        const MAX_CHARS = 42;
-        const truncatedMessage = message.length > MAX_CHARS ? message.substring(0, MAX_CHARS) : message;
+        // Enforce the server's limits
+        const maxLength = this.limits.maxMessageLength;
+        const truncatedMessage = message.length > maxLength ? message.substring(0, maxLength) : message;
         
-        // Always use a random snippet from fml.json instead of any provided snippet
-        const randomSnippet = this.getRandomSnippet();
+        // Every check-in goes through the privacy rules, whatever the tags came from
+        const privacyRule = getActivePrivacyRule();
+        const revealedTags = applyPrivacyRule(tags, privacyRule);
+        // Rules that hide or replace the tags hide the kind of work too
+        const context = !privacyRule || privacyRule.mode === 'generic' ? ActivityContextTracker.getInstance().getActiveContexts() : [];
+        if (privacyRule) {
+            this.log.info(`Privacy rule for ${privacyRule.path} (${privacyRule.mode}) applied to the check-in tags`);
+        }
         
-        // Get the auth token and send the check-in
-        return this.getAuthToken().then(token => {
-            if (this.socket?.readyState === WebSocket.OPEN) {
-                // Get GitHub avatar URL if username looks like a GitHub username
-                const avatarUrl = `https://github.com/${username}.png`;
-                
-                const checkInMessage: CheckInMessage = {
-                    type: 'checkin',
-                    username,
-                    tags,
-                    message: truncatedMessage,
-                    timestamp: new Date().toISOString(),
-                    avatarUrl,
-                    snippet: randomSnippet
-                };
-                
-                // Sign the message
-                const { signature, timestamp } = this.signMessage(checkInMessage);
-                
-                // Include authentication token and signature in the message
-                const messageToSend = {
-                    ...checkInMessage,
-                    token: token, // This will be verified by the server
-                    signature: signature,
-                    signatureTimestamp: timestamp
-                };
-                
-                this.socket.send(JSON.stringify(messageToSend));
-                
-                // Also create a self-update for our local view in case the server doesn't echo back
-                const localUpdate: NewCheckInMessage = {
-                    type: 'new_checkin',
-                    username,
-                    tags,
-                    message: truncatedMessage,
-                    timestamp: checkInMessage.timestamp,
-                    avatarUrl,
-                    snippet: randomSnippet
-                };
-                
-                // Store in our own list
-                this.storeCheckIn(localUpdate);
-                
-                // Small delay to simulate network roundtrip
-                setTimeout(() => {
-                    this._onMessageReceived.fire(localUpdate);
-                }, 500);
-                
-                // Update the last check-in time and start cooldown
-                this.lastCheckInTime = Date.now();
-                this.startCooldownTimer();
-                
-                return true;
-            } else {
-                // Fall back to simulation if not connected
-                if (this.simulateCheckInResponse(username, tags, message, randomSnippet)) {
-                    // Update the last check-in time and start cooldown
-                    this.lastCheckInTime = Date.now();
-                    this.startCooldownTimer();
-                    return true;
-                }
-                return false;
-            }
-        }).catch(error => {
-            console.error('Error getting auth token for check-in:', error);
+        const checkInMessage: CheckInMessage = {
+            type: 'checkin',
+            id: crypto.randomUUID(),
+            username,
+            tags: revealedTags.slice(0, this.limits.maxTags),
+            message: truncatedMessage,
+            timestamp: new Date().toISOString(),
+            // Get GitHub avatar URL if username looks like a GitHub username
+            avatarUrl: `https://github.com/${username}.png`,
+            // Always use a random snippet from fml.json instead of any provided snippet
+            snippet: this.getRandomSnippet(),
+            context: context.length > 0 ? context : undefined
+        };
+        
+        // Keep it until the server has acknowledged it
+        this.outboundQueue.enqueue(checkInMessage);
+        
+        // Show it locally right away, marked as pending
+        const localUpdate = this.toLocalCheckIn(checkInMessage, true);
+        this.storeCheckIn(localUpdate);
+        this._onMessageReceived.fire(localUpdate);
+        
+        // Start the cooldown locally; the server's acknowledgement replaces this estimate
+        this.setNextAllowedAt(Date.now() + this.limits.cooldownSeconds * 1000);
+        
+        if (!this.isConnected() || !await this.transmitCheckIn(checkInMessage)) {
+            this.log.info('Not connected, check-in queued until the connection is back');
+            return { status: 'queued', tags: checkInMessage.tags, privacyRule };
+        }
+        
+        const result = await this.waitForAcknowledgement(checkInMessage.id!, 10000);
+        return { ...result, tags: checkInMessage.tags, privacyRule };
+    }
+    
+    /**
+     * Wait for the server to accept or reject a check-in
+     * @param id Id of the check-in
+     * @param timeoutMs How long to wait before reporting the check-in as still queued
+     */
+    private waitForAcknowledgement(id: string, timeoutMs: number): Promise<CheckInResult> {
+        return new Promise(resolve => {
+            const timeout = setTimeout(() => {
+                this.ackWaiters.delete(id);
+                resolve({ status: 'queued' });
+            }, timeoutMs);
             
-            // Still allow check-in without authentication in development
-            if (this.simulateCheckInResponse(username, tags, message, randomSnippet)) {
-                this.lastCheckInTime = Date.now();
-                this.startCooldownTimer();
-                return true;
-            }
-            return false;
+            this.ackWaiters.set(id, result => {
+                clearTimeout(timeout);
+                this.ackWaiters.delete(id);
+                resolve(result);
+            });
         });
     }
     
-    private simulateCheckInResponse(username: string, tags: string[], message: string = '', snippet?: string) {
-        // Enforce character limit of 42 characters
-        const MAX_CHARS = 42;
-        const truncatedMessage = message.length > MAX_CHARS ? message.substring(0, MAX_CHARS) : message;
-        
-        // Get GitHub avatar URL
-        const avatarUrl = `https://github.com/${username}.png`;
+    /**
+     * Handle the server accepting a check-in
+     */
+    private handleCheckInAck(message: CheckInAckMessage) {
+        const nextAllowedAt = new Date(message.nextAllowedAt).getTime();
+        if (!isNaN(nextAllowedAt)) {
+            this.setNextAllowedAt(nextAllowedAt);
+        }
         
-        const checkInMessage: NewCheckInMessage = {
-            type: 'new_checkin',
-            username,
-            tags,
-            message: truncatedMessage,
-            timestamp: new Date().toISOString(),
-            avatarUrl,
-            snippet
-        };
+        this.acknowledgeCheckIn(message.id);
+        this.ackWaiters.get(message.id)?.({ status: 'accepted' });
+    }
+    
+    /**
+     * Handle the server refusing a check-in
+     */
+    private handleCheckInRejected(message: CheckInRejectedMessage) {
+        this.log.warn(`Check-in ${message.id} rejected: ${message.reason}`);
         
-        // Store in our list
-        this.storeCheckIn(checkInMessage);
+        this.outboundQueue.remove(message.id);
+        this.discardLocalCheckIn(message.id);
         
-        // Simulate a network delay
-        setTimeout(() => {
-            this._onMessageReceived.fire(checkInMessage);
-        }, 500);
+        // The server's view of the cooldown wins; without one, allow a retry
+        const nextAllowedAt = message.nextAllowedAt ? new Date(message.nextAllowedAt).getTime() : NaN;
+        this.setNextAllowedAt(isNaN(nextAllowedAt) ? 0 : nextAllowedAt);
         
-        return true;
+        const waiter = this.ackWaiters.get(message.id);
+        if (waiter) {
+            waiter({ status: 'rejected', reason: message.reason });
+        } else {
+            // A queued check-in sent on reconnect, nobody is waiting for the answer
+            vscode.window.showWarningMessage(`A queued check-in was rejected: ${message.reason}`);
+        }
     }
     
-    private simulateData() {
-        // Simulated data for development/demo purposes
-        const sampleData: { username: string, tags: string[], message: string, avatarUrl?: string }[] = [
-            { 
-                username: 'johndoe', 
-                tags: ['javascript', 'react', 'node'], 
-                message: 'Working on a new feature for the dashboard',
-                avatarUrl: 'https://github.com/octocat.png'
-            },
-            { 
-                username: 'janedoe', 
-                tags: ['python', 'django', 'ai'], 
-                message: 'Debugging ML model training issues',
-                avatarUrl: 'https://github.com/github.png'
-            },
-            { 
-                username: 'bobsmith', 
-                tags: ['java', 'spring', 'aws'], 
-                message: 'Setting up CI/CD pipeline',
-                avatarUrl: 'https://github.com/microsoft.png'
-            },
-            { 
-                username: 'sarahlee', 
-                tags: ['typescript', 'angular', 'azure'], 
-                message: 'Refactoring authentication module',
-                avatarUrl: 'https://github.com/google.png'
-            },
-            { 
-                username: 'mikebrown', 
-                tags: ['go', 'docker', 'kubernetes'], 
-                message: 'Optimizing container orchestration',
-                avatarUrl: 'https://github.com/facebook.png'
+    /**
+     * Sign and send a check-in over the open connection
+     * @returns Promise resolving to true if the check-in was handed to the transport
+     */
+    private async transmitCheckIn(checkInMessage: CheckInMessage): Promise<boolean> {
+        try {
+            const transport = this.transport;
+            if (!transport || !this.isConnected() || !this.session) {
+                // Without a signing session the check-in waits for the handshake
+                return false;
             }
-        ];
+            
+            // Servers without the capability would not include the context in the signature
+            const checkIn = this.negotiated?.capabilities.includes('activity_context')
+                ? checkInMessage
+                : { ...checkInMessage, context: undefined };
+            
+            // Sign the message
+            const { signature, timestamp } = this.signMessage(checkIn, this.session);
+            
+            // Include the signature in the message; the connection itself is authenticated
+            const messageToSend: CheckInMessage = {
+                ...checkIn,
+                signature: signature,
+                signatureTimestamp: timestamp,
+                nonce: this.session.nonce
+            };
+            
+            this.sendMessage(transport, messageToSend);
+            return true;
+        } catch (error) {
+            this.log.error('Error sending check-in:', error);
+            return false;
+        }
+    }
+    
+    /**
+     * Send queued check-ins in order, dropping the ones that are too old.
+     * Entries stay queued until the server acknowledges them.
+     */
+    private async flushOutboundQueue() {
+        const maxAgeMinutes = vscode.workspace.getConfiguration('yna.offlineQueue').get<number>('maxAgeMinutes', 60);
+        const expired = this.outboundQueue.pruneExpired(maxAgeMinutes * 60 * 1000);
         
-        // Set simulated online users count
-        this.onlineUsersCount = sampleData.length;
-        this._onOnlineUsersChanged.fire(this.onlineUsersCount);
+        if (expired.length > 0) {
+            expired.forEach(entry => this.discardLocalCheckIn(entry.checkIn.id));
+            vscode.window.showWarningMessage(
+                `${expired.length} check-in${expired.length === 1 ? ' was' : 's were'} queued for too long and discarded.`
+            );
+        }
         
-        // Emit sample check-ins with delays to simulate real-world behavior
-        sampleData.forEach((data, index) => {
-            setTimeout(() => {
-                const message: NewCheckInMessage = {
-                    type: 'new_checkin',
-                    username: data.username,
-                    tags: data.tags,
-                    message: data.message,
-                    timestamp: new Date(Date.now() - index * 60000).toISOString(), // Each one is a minute apart
-                    avatarUrl: data.avatarUrl,
-                    snippet: '' // Placeholder for snippet
-                };
-                
-                // Store in our list
-                this.storeCheckIn(message);
-                
-                this._onMessageReceived.fire(message);
-                
-                // Fire history received event after the last message
-                if (index === sampleData.length - 1) {
-                    this.initialHistoryReceived = true;
-                    this._onHistoryReceived.fire();
-                }
-            }, index * 500); // Stagger by 500ms each
-        });
+        // Other windows share the queue; each sends only what it claimed
+        for (const entry of this.outboundQueue.claim()) {
+            if (!await this.transmitCheckIn(entry.checkIn)) {
+                // Connection dropped again, the rest waits for the next reconnect
+                break;
+            }
+        }
+    }
+    
+    /**
+     * Mark a queued check-in as delivered
+     */
+    private acknowledgeCheckIn(id: string) {
+        if (!this.outboundQueue.remove(id)) {
+            return;
+        }
         
-        // Simulate connection status
-        this._onConnectionStatusChanged.fire(true);
+        const stored = this.allReceivedCheckIns.find(c => c.id === id);
+        if (stored) {
+            stored.pending = false;
+        }
+        this._onCheckInAcknowledged.fire(id);
+    }
+    
+    /**
+     * Remove a locally created check-in that will never reach the server
+     */
+    private discardLocalCheckIn(id: string | undefined) {
+        if (id) {
+            this.allReceivedCheckIns = this.allReceivedCheckIns.filter(c => c.id !== id);
+            this._onCheckInDiscarded.fire(id);
+        }
     }
     
+    /**
+     * Build the local copy of an outgoing check-in
+     */
+    private toLocalCheckIn(checkIn: CheckInMessage, pending: boolean): NewCheckInMessage {
+        return {
+            type: 'new_checkin',
+            id: checkIn.id,
+            username: checkIn.username,
+            tags: checkIn.tags,
+            message: checkIn.message,
+            timestamp: checkIn.timestamp,
+            avatarUrl: checkIn.avatarUrl,
+            snippet: checkIn.snippet,
+            context: checkIn.context,
+            pending
+        };
+    }
+    
+    /**
+     * Tear the client down when the extension is deactivated; use disconnect() to sign out
+     */
     public dispose() {
-        if (this.socket) {
-            this.socket.close();
-            this.socket = null;
+        this.stopHeartbeat();
+        this.reconnectScheduler.cancel();
+        this.reconnectScheduler.dispose();
+        // Check-ins still queued are sent by another window, or the next session
+        this.outboundQueue.release();
+        if (this.transport) {
+            // Detached, so closing it doesn't schedule a reconnect
+            this.transport.dispose();
+            this.transport = null;
         }
+        this.connectionAuthenticated = false;
     }
     
     /**
-     * Properly disconnect the WebSocket
+     * Properly disconnect from the server, without reconnecting
      */
     public disconnect() {
-        console.log('Disconnecting WebSocket...');
-        if (this.socket && this.socket.readyState !== WebSocket.CLOSED) {
-            this.socket.close();
-            this.socket = null; // Set to null instead of undefined to match property type
+        this.log.info('Disconnecting...');
+        this.stopHeartbeat();
+        this.reconnectScheduler.cancel();
+        this.session = null;
+        if (this.transport) {
+            this.transport.dispose();
+            this.transport = null;
         }
+        this.connectionAuthenticated = false;
         this._onConnectionStatusChanged.fire(false);
     }
 
     /**
-     * Reconnect to the WebSocket server
+     * Try to connect again after reconnecting was paused
      */
-    public reconnect() {
-        console.log('Attempting to reconnect WebSocket...');
+    public retryConnection() {
+        this.log.info('Retrying connection');
+        this.reconnectScheduler.retryNow();
+    }
+
+    /**
+     * Get the URL of the server this client connects to
+     */
+    public getServerUrl(): string {
+        return this.url;
+    }
+
+    /**
+     * Get the mode the client is running in
+     */
+    public getMode(): TransportMode {
+        return this.mode;
+    }
+
+    /**
+     * Tear down the current connection, forget everything received from the
+     * previous server and connect to a new one
+     * @param url WebSocket URL of the new server
+     */
+    public switchServer(url: string) {
+        this.log.info(`Switching server to ${url}`);
+        this.url = url;
+        this.resetConnection();
+    }
+
+    /**
+     * Switch between the live server, the scripted demo and offline mode.
+     * Demo data never mixes with real data: everything received is cleared,
+     * and queued check-ins and the cooldown are kept apart.
+     * @param mode Mode to switch to
+     */
+    public setMode(mode: TransportMode) {
+        if (mode === this.mode) {
+            return;
+        }
         
-        // Create a function to handle the actual connect operation
-        const performConnect = () => {
-            // Set a flag to prevent multiple reconnect attempts
-            const reconnectAttemptId = Date.now();
-            this._currentReconnectAttempt = reconnectAttemptId;
-            
-            setTimeout(() => {
-                // Only proceed if this is still the current reconnect attempt
-                if (this._currentReconnectAttempt === reconnectAttemptId) {
-                    this.connect();
-                    console.log('Reconnection attempt initiated');
-                }
-            }, 500); // Increase delay to 500ms to ensure socket is fully closed
-        };
+        this.log.info(`Switching mode from ${this.mode} to ${mode}`);
+        this.mode = mode;
+        // Windows still in the old mode may send what this one queued there
+        this.outboundQueue.release();
+        this.outboundQueue = this.createOutboundQueue();
+        this.resetConnection();
+        this.startCooldownTimer();
+    }
+
+    /**
+     * Drop the current connection and everything received over it, then connect again
+     */
+    private resetConnection() {
+        // Detach the old transport first so its close event doesn't schedule a reconnect
+        this.stopHeartbeat();
+        if (this.transport) {
+            const oldTransport = this.transport;
+            this.transport = null;
+            oldTransport.dispose();
+        }
+        this.session = null;
+        this.connectionAuthenticated = false;
+        this._onConnectionStatusChanged.fire(false);
         
-        // Handle existing connection
-        if (this.socket) {
-            if (this.socket.readyState !== WebSocket.CLOSED) {
-                // Only disconnect if socket isn't already closed
-                this.disconnect();
-                // Wait longer after disconnect before reconnecting
-                setTimeout(performConnect, 1000);
-            } else {
-                // Socket is already closed, can reconnect immediately
-                performConnect();
-            }
-        } else {
-            // No socket exists, can connect immediately
-            performConnect();
+        // Nothing from the previous server carries over
+        this.allReceivedCheckIns = [];
+        this.lastSeenSeq = null;
+        this.lastSeenTimestamp = null;
+        this.onlineUsersCount = 0;
+        this.latencyMs = undefined;
+        this.limits = { ...DEFAULT_LIMITS };
+        
+        // Check-ins still waiting to be delivered go to the new server
+        this.outboundQueue.getAll().forEach(entry => {
+            this.storeCheckIn(this.toLocalCheckIn(entry.checkIn, true));
+        });
+        
+        this._onServerChanged.fire(this.url);
+        this._onOnlineUsersChanged.fire(this.onlineUsersCount);
+        this._onLimitsChanged.fire(this.getLimits());
+        
+        this.reconnectScheduler.retryNow();
+    }
+
+    /**
+     * Connect unless a connection is already up or under way. A connection still doing
+     * its handshake is left alone; check-ins made meanwhile wait in the outbound queue.
+     * @returns true if a new attempt was started
+     */
+    public ensureConnected(): boolean {
+        if (this.getDiagnostics().state !== 'disconnected' || this.reconnectScheduler.getState().status === 'connecting') {
+            return false;
         }
+        this.reconnect();
+        return true;
     }
 
-    // Add tracking for current reconnect attempt
-    private _currentReconnectAttempt: number = 0;
+    /**
+     * Drop the current connection, if any, and connect again right away
+     */
+    public reconnect() {
+        this.log.info('Attempting to reconnect...');
+        
+        if (this.transport && (this.transport.isOpen() || this.transport.isConnecting())) {
+            this.disconnect();
+        }
+        this.reconnectScheduler.retryNow();
+    }
 
     /**
-     * Updates the authentication status and manages the WebSocket connection accordingly
+     * Updates the authentication status and manages the connection accordingly
      * @param isAuthenticated Whether the user is authenticated
      */
     public updateAuthStatus(isAuthenticated: boolean): void {
@@ -776,7 +1378,7 @@ export class WebSocketClient {
         if (isAuthenticated) {
             // If authenticated and not connected, try to connect
             if (!this.isConnected() && this.autoReconnect) {
-                this.connect();
+                this.reconnectScheduler.retryNow();
             }
         } else {
             // If not authenticated, disconnect
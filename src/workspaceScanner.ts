@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+/**
+ * What the manifests of a workspace folder say about the project
+ */
+export interface ManifestTags {
+    frameworks: string[]; // Specific frameworks and libraries, e.g. nextjs, django
+    ecosystems: string[]; // The platform the manifests belong to, e.g. nodejs, python
+}
+
+// A manifest file and how to read tags out of it
+interface ManifestParser {
+    fileName: string;
+    ecosystem: string;
+    parse(content: string): string[]; // Framework tags found in the file
+}
+
+// Wait for a burst of manifest changes, like an install, to settle before rescanning
+const RESCAN_DELAY_MS = 500;
+
+// npm packages, by name or scope, and their tag
+const NPM_FRAMEWORKS: Record<string, string> = {
+    'next': 'nextjs',
+    'react': 'react',
+    'react-native': 'react-native',
+    'expo': 'expo',
+    'vue': 'vue',
+    'nuxt': 'nuxt',
+    'svelte': 'svelte',
+    '@sveltejs/kit': 'sveltekit',
+    '@angular/core': 'angular',
+    '@nestjs/core': 'nestjs',
+    'express': 'express',
+    'fastify': 'fastify',
+    'koa': 'koa',
+    'electron': 'electron',
+    'astro': 'astro',
+    'solid-js': 'solid',
+    '@remix-run/react': 'remix',
+    'gatsby': 'gatsby',
+    'typescript': 'typescript'
+};
+
+// Rust crates and their tag
+const CARGO_FRAMEWORKS: Record<string, string> = {
+    'actix-web': 'actix',
+    'axum': 'axum',
+    'rocket': 'rocket',
+    'tokio': 'tokio',
+    'bevy': 'bevy',
+    'tauri': 'tauri',
+    'leptos': 'leptos',
+    'yew': 'yew'
+};
+
+// Python packages and their tag
+const PYTHON_FRAMEWORKS: Record<string, string> = {
+    'django': 'django',
+    'fastapi': 'fastapi',
+    'flask': 'flask',
+    'streamlit': 'streamlit',
+    'torch': 'pytorch',
+    'tensorflow': 'tensorflow',
+    'pandas': 'pandas'
+};
+
+// Go module path prefixes and their tag
+const GO_FRAMEWORKS: Record<string, string> = {
+    'github.com/gin-gonic/gin': 'gin',
+    'github.com/labstack/echo': 'echo',
+    'github.com/gofiber/fiber': 'fiber',
+    'github.com/gorilla/mux': 'gorilla'
+};
+
+// Ruby gems and their tag
+const RUBY_FRAMEWORKS: Record<string, string> = {
+    'rails': 'rails',
+    'sinatra': 'sinatra',
+    'hanami': 'hanami'
+};
+
+// Composer packages, by name or vendor, and their tag
+const COMPOSER_FRAMEWORKS: Record<string, string> = {
+    'laravel/framework': 'laravel',
+    'symfony': 'symfony',
+    'slim/slim': 'slim',
+    'cakephp/cakephp': 'cakephp'
+};
+
+/**
+ * Map package names to tags, matching either the full name or its scope/vendor part
+ */
+function matchPackages(names: string[], table: Record<string, string>): string[] {
+    const tags: string[] = [];
+    names.forEach(name => {
+        const normalized = name.toLowerCase();
+        const tag = table[normalized] ?? table[normalized.split('/')[0]];
+        if (tag && !tags.includes(tag)) {
+            tags.push(tag);
+        }
+    });
+    return tags;
+}
+
+/**
+ * Keys and string values that look like package names in a TOML file.
+ * Not a TOML parser, but enough to spot dependencies in the usual layouts.
+ */
+function getTomlPackageNames(content: string): string[] {
+    const names: string[] = [];
+    const keyPattern = /^\s*([A-Za-z0-9_.-]+)\s*=/gm;
+    const stringPattern = /["']([A-Za-z0-9_.-]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = keyPattern.exec(content)) !== null) {
+        names.push(match[1]);
+    }
+    while ((match = stringPattern.exec(content)) !== null) {
+        names.push(match[1]);
+    }
+    return names;
+}
+
+/**
+ * Dependencies of a package.json or composer.json
+ */
+function getJsonDependencies(content: string, sections: string[]): string[] {
+    const manifest = JSON.parse(content) as Record<string, unknown>;
+    return sections.flatMap(section => {
+        const dependencies = manifest[section];
+        return typeof dependencies === 'object' && dependencies !== null ? Object.keys(dependencies) : [];
+    });
+}
+
+const MANIFEST_PARSERS: ManifestParser[] = [
+    {
+        fileName: 'package.json',
+        ecosystem: 'nodejs',
+        parse: content => matchPackages(
+            getJsonDependencies(content, ['dependencies', 'devDependencies', 'peerDependencies']),
+            NPM_FRAMEWORKS
+        )
+    },
+    {
+        fileName: 'Cargo.toml',
+        ecosystem: 'rust',
+        parse: content => matchPackages(getTomlPackageNames(content), CARGO_FRAMEWORKS)
+    },
+    {
+        fileName: 'pyproject.toml',
+        ecosystem: 'python',
+        parse: content => matchPackages(getTomlPackageNames(content), PYTHON_FRAMEWORKS)
+    },
+    {
+        fileName: 'requirements.txt',
+        ecosystem: 'python',
+        parse: content => matchPackages(
+            content.split(/\r?\n/).map(line => line.trim().split(/[\s<>=!~;[#]/)[0]).filter(name => name.length > 0),
+            PYTHON_FRAMEWORKS
+        )
+    },
+    {
+        fileName: 'go.mod',
+        ecosystem: 'golang',
+        parse: content => {
+            const modules = content.match(/^\s*(?:require\s+)?[a-z0-9.-]+\.[a-z]+\/\S+/gm) ?? [];
+            const tags: string[] = [];
+            modules.map(line => line.replace(/^\s*require\s+/, '').trim()).forEach(module => {
+                const prefix = Object.keys(GO_FRAMEWORKS).find(candidate => module.startsWith(candidate));
+                if (prefix && !tags.includes(GO_FRAMEWORKS[prefix])) {
+                    tags.push(GO_FRAMEWORKS[prefix]);
+                }
+            });
+            return tags;
+        }
+    },
+    {
+        fileName: 'Gemfile',
+        ecosystem: 'ruby',
+        parse: content => matchPackages(
+            Array.from(content.matchAll(/^\s*gem\s+["']([^"']+)["']/gm), match => match[1]),
+            RUBY_FRAMEWORKS
+        )
+    },
+    {
+        fileName: 'composer.json',
+        ecosystem: 'php',
+        parse: content => matchPackages(getJsonDependencies(content, ['require', 'require-dev']), COMPOSER_FRAMEWORKS)
+    },
+    {
+        fileName: 'pubspec.yaml',
+        ecosystem: 'dart',
+        parse: content => /^\s+(?:flutter:\s*$|sdk:\s*flutter\b)/m.test(content) ? ['flutter'] : []
+    }
+];
+
+/**
+ * Detects frameworks from the manifests at the root of each workspace folder.
+ * Results are cached per folder and refreshed when a manifest changes.
+ */
+export class WorkspaceScanner implements vscode.Disposable {
+    private static instance: WorkspaceScanner;
+    private log = Logger.getInstance();
+    private cache = new Map<string, ManifestTags>(); // By workspace folder URI
+    private watchers = new Map<string, vscode.FileSystemWatcher>();
+    private rescanTimers = new Map<string, NodeJS.Timeout>();
+    private folderListener: vscode.Disposable;
+
+    private constructor() {
+        (vscode.workspace.workspaceFolders ?? []).forEach(folder => this.addFolder(folder));
+        this.folderListener = vscode.workspace.onDidChangeWorkspaceFolders(event => {
+            event.removed.forEach(folder => this.removeFolder(folder));
+            event.added.forEach(folder => this.addFolder(folder));
+        });
+    }
+
+    /**
+     * Get the singleton instance
+     */
+    public static getInstance(): WorkspaceScanner {
+        if (!WorkspaceScanner.instance) {
+            WorkspaceScanner.instance = new WorkspaceScanner();
+        }
+        return WorkspaceScanner.instance;
+    }
+
+    /**
+     * Get the tags detected for a workspace folder
+     * @returns the tags, empty until the folder has been scanned
+     */
+    public getTags(folder: vscode.WorkspaceFolder): ManifestTags {
+        return this.cache.get(folder.uri.toString()) ?? { frameworks: [], ecosystems: [] };
+    }
+
+    public dispose() {
+        this.folderListener.dispose();
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers.clear();
+        this.rescanTimers.forEach(timer => clearTimeout(timer));
+        this.rescanTimers.clear();
+    }
+
+    private addFolder(folder: vscode.WorkspaceFolder) {
+        const key = folder.uri.toString();
+        const pattern = new vscode.RelativePattern(folder, `{${MANIFEST_PARSERS.map(parser => parser.fileName).join(',')}}`);
+        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        const rescan = () => this.scheduleScan(folder);
+        watcher.onDidCreate(rescan);
+        watcher.onDidChange(rescan);
+        watcher.onDidDelete(rescan);
+        this.watchers.set(key, watcher);
+
+        this.scanFolder(folder);
+    }
+
+    private removeFolder(folder: vscode.WorkspaceFolder) {
+        const key = folder.uri.toString();
+        this.watchers.get(key)?.dispose();
+        this.watchers.delete(key);
+        clearTimeout(this.rescanTimers.get(key));
+        this.rescanTimers.delete(key);
+        this.cache.delete(key);
+    }
+
+    private scheduleScan(folder: vscode.WorkspaceFolder) {
+        const key = folder.uri.toString();
+        clearTimeout(this.rescanTimers.get(key));
+        this.rescanTimers.set(key, setTimeout(() => {
+            this.rescanTimers.delete(key);
+            this.scanFolder(folder);
+        }, RESCAN_DELAY_MS));
+    }
+
+    /**
+     * Read every manifest at the root of a folder and cache what they say
+     */
+    private async scanFolder(folder: vscode.WorkspaceFolder) {
+        const frameworks: string[] = [];
+        const ecosystems: string[] = [];
+
+        for (const parser of MANIFEST_PARSERS) {
+            let content: string;
+            try {
+                const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, parser.fileName));
+                content = Buffer.from(data).toString('utf8');
+            } catch {
+                continue; // No such manifest
+            }
+
+            if (!ecosystems.includes(parser.ecosystem)) {
+                ecosystems.push(parser.ecosystem);
+            }
+            try {
+                parser.parse(content).forEach(tag => {
+                    if (!frameworks.includes(tag)) {
+                        frameworks.push(tag);
+                    }
+                });
+            } catch (error) {
+                this.log.warn(`Could not read ${parser.fileName} in ${folder.name}:`, error);
+            }
+        }
+
+        // The folder may have been removed while we were reading
+        if (!this.watchers.has(folder.uri.toString())) {
+            return;
+        }
+
+        this.log.debug(`Detected in ${folder.name}: ${[...frameworks, ...ecosystems].join(', ') || 'nothing'}`);
+        this.cache.set(folder.uri.toString(), { frameworks, ecosystems });
+    }
+}